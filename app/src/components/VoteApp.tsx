@@ -1,15 +1,101 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type { CSSProperties } from 'react';
 import { useAccount, useChainId, usePublicClient } from 'wagmi';
-import { Contract } from 'ethers';
+import { Contract, hexlify, keccak256 } from 'ethers';
 
 import { Header } from './Header';
 import { useEthersSigner } from '../hooks/useEthersSigner';
 import { useZamaInstance } from '../hooks/useZamaInstance';
-import { CONTRACT_ABI, CONTRACT_ADDRESS } from '../config/contracts';
+import { CONTRACT_ABI, CONTRACT_ADDRESS, LENS_ABI, LENS_ADDRESS } from '../config/contracts';
+import { getAllowlistProof, parseAllowlist } from '../utils/allowlist';
+import type { Allowlist } from '../utils/allowlist';
+import { factorial, indexToRanking, instantRunoff, rankingToIndex } from '../../../shared/ranked';
+import {
+  KMS_VERIFIER_ABI,
+  KMS_VERIFIER_ADDRESS,
+  RESULTS_FORMAT,
+  downloadResultsBundle,
+  verifyResultsBundle,
+} from '../utils/resultsBundle';
+import type { BundleVerification, KmsConfig } from '../utils/resultsBundle';
 import '../styles/VoteApp.css';
 
 const SEPOLIA_CHAIN_ID = 11155111;
+// Polls read per MetaVoteLens.getPolls call. The newest page loads first and "Load more" reads older ones.
+const PAGE_SIZE = 20;
+const OPEN_POLL_ROOT = `0x${'0'.repeat(64)}` as const;
+const ZERO_ADDRESS = `0x${'0'.repeat(40)}` as const;
+
+// Mirrors MetaVote.PollKind.
+const POLL_KIND_SINGLE_CHOICE = 0;
+const POLL_KIND_APPROVAL = 1;
+const POLL_KIND_RANKED = 2;
+const POLL_KIND_SCORE = 3;
+const POLL_KIND_SURVEY = 4;
+const MAX_SCORE = 10;
+const MAX_OPTIONS = 16;
+const MAX_RANKED_OPTIONS = 4;
+const MAX_QUESTIONS = 8;
+// Mirrors MetaVote.ABSTAIN. Every poll ends its tallies with the abstain and invalid-ballot counters.
+const ABSTAIN = 0xffffffff;
+const COUNTER_TALLIES = 2;
+
+// Signed ballots go to a relayer that submits them with castVoteBySig. `task:relay-server` runs one locally.
+const DEFAULT_RELAYER_URL = 'http://localhost:8787';
+const SIGNATURE_TTL_SECONDS = 3600;
+const VOTE_TYPES = {
+  Vote: [
+    { name: 'pollId', type: 'uint256' },
+    { name: 'encryptedChoice', type: 'bytes32' },
+    { name: 'inputProofHash', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+// Membership NFTs must be ERC-721 Enumerable for the app to find the tokens of the connected wallet.
+const ERC721_ENUMERABLE_ABI = [
+  {
+    type: 'function',
+    name: 'balanceOf',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'tokenOfOwnerByIndex',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'index', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
+const maxOptionsFor = (kind: number) => (kind === POLL_KIND_RANKED ? MAX_RANKED_OPTIONS : MAX_OPTIONS);
+
+// Tallies a poll keeps, as in PollTally.setOptions. Revealed results repeat them for every cohort of the poll.
+function tallyCountFor(kind: number, optionCount: number, questionCount: number) {
+  if (kind === POLL_KIND_SURVEY) {
+    return optionCount + questionCount * COUNTER_TALLIES;
+  }
+  const choiceTallies =
+    kind === POLL_KIND_RANKED
+      ? factorial(optionCount)
+      : kind === POLL_KIND_SINGLE_CHOICE
+        ? optionCount
+        : optionCount + 1;
+  return choiceTallies + COUNTER_TALLIES;
+}
+
+// Mirrors MetaVote.PollOutcome.
+const OUTCOME_PASSED = 1;
+const OUTCOME_FAILED_QUORUM = 2;
+const OUTCOME_REJECTED = 3;
+const OUTCOME_TIE = 4;
+const OUTCOME_INSUFFICIENT_TURNOUT = 5;
 
 type PollRecord = {
   id: number;
@@ -21,9 +107,101 @@ type PollRecord = {
   finalized: boolean;
   resultsPublished: boolean;
   creator: `0x${string}`;
+  cancelled: boolean;
+  creatorCanPeek: boolean;
   userVoted: boolean;
+  kind: number;
+  eligibilityRoot: `0x${string}`;
+  weightToken: `0x${string}`;
+  membershipToken: `0x${string}`;
+  // Membership tokens of the connected wallet that can vote in the poll: the one it voted with, or the unused ones.
+  memberTokens: bigint[];
+  quorum: number;
+  thresholdBps: number;
+  minParticipants: number;
+  revealWinnerOnly: boolean;
+  voterCount: number;
+  cohorts: string[];
+  // Voters in each cohort. Cohorts below `minParticipants` reveal zeros instead of their tallies.
+  cohortVoters: number[];
+  userCohort?: number;
+  // Proposal polls run the action of their winning option after the timelock; `actions` is empty otherwise.
+  actions: { target: `0x${string}`; data: `0x${string}` }[];
+  executionDelay: bigint;
+  executableAt: bigint;
+  executed: boolean;
+  outcome: number;
+  winningOption: number;
   publishedResults?: number[];
   publishedProof?: `0x${string}`;
+  delegatee: `0x${string}`;
+  representative: `0x${string}`;
+  delegations: number;
+  carriedWeight: `0x${string}`;
+  // Surveys split `options` into questions of `questionSizes` options each; both are empty for other polls.
+  questions: string[];
+  questionSizes: number[];
+};
+
+// MetaVoteLens.PollRecord as viem decodes it.
+type LensPollRecord = {
+  id: bigint;
+  title: string;
+  options: readonly string[];
+  startTime: bigint;
+  endTime: bigint;
+  creator: `0x${string}`;
+  finalized: boolean;
+  resultsPublished: boolean;
+  cancelled: boolean;
+  settings: {
+    kind: number;
+    eligibilityRoot: `0x${string}`;
+    weightToken: `0x${string}`;
+    quorum: number;
+    thresholdBps: number;
+    creatorCanPeek: boolean;
+    minParticipants: number;
+    revealWinnerOnly: boolean;
+    membershipToken: `0x${string}`;
+  };
+  voterCount: bigint;
+  questions: readonly string[];
+  questionSizes: readonly number[];
+  cohorts: readonly string[];
+  cohortVoters: readonly number[];
+  outcome: number;
+  winningOption: bigint;
+  results: readonly number[];
+  proof: `0x${string}`;
+  proposal: {
+    actions: readonly { target: `0x${string}`; data: `0x${string}` }[];
+    executionDelay: bigint;
+    executableAt: bigint;
+    executed: boolean;
+  };
+  voter: {
+    voted: boolean;
+    delegatee: `0x${string}`;
+    representative: `0x${string}`;
+    delegations: number;
+    weight: `0x${string}`;
+    inCohort: boolean;
+    cohort: bigint;
+  };
+};
+
+type SurveyQuestion = {
+  text: string;
+  options: string[];
+  // Index of the first option of the question in `options`, and of its first tally.
+  firstOption: number;
+  firstTally: number;
+};
+
+type QuestionDraft = {
+  text: string;
+  options: string[];
 };
 
 type DecryptedResults = {
@@ -31,12 +209,34 @@ type DecryptedResults = {
   proof: `0x${string}`;
 };
 
+// Answers of the optional event indexer run by `task:indexer` (see tasks/indexer.ts).
+type IndexedPoll = {
+  id: number;
+  voterCount: number;
+  ballotCount: number;
+  lastVoteAt?: number;
+};
+
+type IndexedVoter = {
+  voter: `0x${string}`;
+  ballots: number;
+  firstVotedAt: number;
+  lastVotedAt: number;
+};
+
 type Notice = {
   type: 'info' | 'error' | 'success';
   text: string;
 };
 
-type PollPhase = 'upcoming' | 'active' | 'ended' | 'finalized' | 'published';
+type PollPhase = 'upcoming' | 'active' | 'ended' | 'finalized' | 'published' | 'cancelled' | 'insufficient';
+
+type PollDraft = {
+  title: string;
+  options: string[];
+};
+
+const emptyQuestion = (): QuestionDraft => ({ text: '', options: ['', ''] });
 
 const statusLabels: Record<PollPhase, string> = {
   upcoming: 'Opens soon',
@@ -44,6 +244,8 @@ const statusLabels: Record<PollPhase, string> = {
   ended: 'Voting ended',
   finalized: 'Decryptable',
   published: 'Published',
+  cancelled: 'Cancelled',
+  insufficient: 'Insufficient turnout',
 };
 
 const statusDescriptions: Record<PollPhase, string> = {
@@ -52,12 +254,69 @@ const statusDescriptions: Record<PollPhase, string> = {
   ended: 'Finalize to unlock public decryption.',
   finalized: 'Decrypt with the relayer and publish on-chain.',
   published: 'Tallies verified and stored on-chain.',
+  cancelled: 'The creator cancelled this poll. Its ballots are never decrypted.',
+  insufficient: 'Closed with too few voters to keep ballots private. The tallies are never revealed.',
 };
 
+// Each survey question keeps its option tallies followed by its own abstain and invalid counters.
+function surveyQuestions(poll: PollRecord): SurveyQuestion[] {
+  let firstOption = 0;
+  return poll.questions.map((text, questionIndex) => {
+    const size = poll.questionSizes[questionIndex];
+    const question = {
+      text,
+      options: poll.options.slice(firstOption, firstOption + size),
+      firstOption,
+      firstTally: firstOption + questionIndex * COUNTER_TALLIES,
+    };
+    firstOption += size;
+    return question;
+  });
+}
+
+// Abstentions and invalid ballots of one set of tallies. Surveys add up the counters of every question.
+function counterTotals(poll: PollRecord, tallies: number[]) {
+  if (poll.kind !== POLL_KIND_SURVEY) {
+    return tallies.slice(-COUNTER_TALLIES);
+  }
+  return surveyQuestions(poll).reduce(
+    ([abstained, invalid], question) => {
+      const counters = question.firstTally + question.options.length;
+      return [abstained + tallies[counters], invalid + tallies[counters + 1]];
+    },
+    [0, 0],
+  );
+}
+
+/** Option cells of one cohort's tallies: first preferences in ranked polls, average scores in score polls. */
+function cohortRow(poll: PollRecord, tallies: number[]): (number | string)[] {
+  if (poll.kind === POLL_KIND_SURVEY) {
+    return surveyQuestions(poll).flatMap((question) =>
+      question.options.map((_, position) => tallies[question.firstTally + position]),
+    );
+  }
+  if (poll.kind === POLL_KIND_RANKED) {
+    const counts = poll.options.map(() => 0);
+    tallies.slice(0, -COUNTER_TALLIES).forEach((count, index) => {
+      counts[indexToRanking(index, poll.options.length)[0]] += count;
+    });
+    return counts;
+  }
+  if (poll.kind === POLL_KIND_SCORE) {
+    const ballots = tallies[poll.options.length];
+    return poll.options.map((_, optionIndex) => (ballots > 0 ? (tallies[optionIndex] / ballots).toFixed(2) : '-'));
+  }
+  return tallies.slice(0, poll.options.length);
+}
+
 function isAddress(value: string): value is `0x${string}` {
   return /^0x[a-fA-F0-9]{40}$/.test(value);
 }
 
+function isBytes32(value: string): value is `0x${string}` {
+  return /^0x[a-fA-F0-9]{64}$/.test(value);
+}
+
 function formatTimestamp(timestamp: bigint) {
   if (!timestamp) {
     return 'Not set';
@@ -86,6 +345,12 @@ function formatCountdown(target: number, now: number) {
 }
 
 function getPhase(poll: PollRecord, nowMs: number): PollPhase {
+  if (poll.cancelled) {
+    return 'cancelled';
+  }
+  if (poll.outcome === OUTCOME_INSUFFICIENT_TURNOUT) {
+    return 'insufficient';
+  }
   if (poll.resultsPublished) {
     return 'published';
   }
@@ -104,6 +369,11 @@ function getPhase(poll: PollRecord, nowMs: number): PollPhase {
   return 'active';
 }
 
+function toDateTimeInput(timestamp: bigint) {
+  const date = new Date(Number(timestamp) * 1000);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
 function toUnixSeconds(value: string) {
   const timestamp = new Date(value).getTime();
   if (Number.isNaN(timestamp)) {
@@ -112,6 +382,41 @@ function toUnixSeconds(value: string) {
   return Math.floor(timestamp / 1000);
 }
 
+// Reads a decrypted ballot the way MetaVote tallies it.
+function describeBallot(poll: PollRecord, values: number[]) {
+  const [value] = values;
+  if (poll.kind === POLL_KIND_SCORE) {
+    return poll.options.map((option, index) => `${option} ${values[index]}`).join(', ');
+  }
+  if (poll.kind === POLL_KIND_SURVEY) {
+    return surveyQuestions(poll)
+      .map((question, index) => {
+        const answer = values[index];
+        const label = answer === ABSTAIN ? 'Abstain' : (question.options[answer] ?? 'Invalid answer');
+        return `${question.text}: ${label}`;
+      })
+      .join('; ');
+  }
+  if (value === ABSTAIN) {
+    return 'Abstain';
+  }
+  if (poll.kind === POLL_KIND_APPROVAL) {
+    if (value >= 1 << poll.options.length) {
+      return 'Invalid ballot';
+    }
+    return poll.options.filter((_, index) => (value & (1 << index)) !== 0).join(', ') || 'No option approved';
+  }
+  if (poll.kind === POLL_KIND_RANKED) {
+    if (value >= factorial(poll.options.length)) {
+      return 'Invalid ballot';
+    }
+    return indexToRanking(value, poll.options.length)
+      .map((option) => poll.options[option])
+      .join(' > ');
+  }
+  return poll.options[value] ?? 'Invalid ballot';
+}
+
 export function VoteApp() {
   const publicClient = usePublicClient();
   const { address, isConnected } = useAccount();
@@ -120,39 +425,200 @@ export function VoteApp() {
   const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
 
   const [contractAddress, setContractAddress] = useState(CONTRACT_ADDRESS);
+  const [lensAddress, setLensAddress] = useState(LENS_ADDRESS);
   const [polls, setPolls] = useState<PollRecord[]>([]);
+  const [pollTotal, setPollTotal] = useState(0);
   const [voteSelections, setVoteSelections] = useState<Record<number, number>>({});
+  const [rankings, setRankings] = useState<Record<number, number[]>>({});
+  const [scoreSelections, setScoreSelections] = useState<Record<number, number[]>>({});
+  // Survey answers: an option index within each question, or ABSTAIN.
+  const [surveyAnswers, setSurveyAnswers] = useState<Record<number, number[]>>({});
+  const [tokenSelections, setTokenSelections] = useState<Record<number, string>>({});
+  const [abstentions, setAbstentions] = useState<Record<number, boolean>>({});
+  const [receipts, setReceipts] = useState<Record<number, string>>({});
+  const [globalDelegate, setGlobalDelegate] = useState<`0x${string}`>(ZERO_ADDRESS);
+  const [delegateInput, setDelegateInput] = useState('');
+  const [pollDelegateInputs, setPollDelegateInputs] = useState<Record<number, string>>({});
+  const [carriedWeights, setCarriedWeights] = useState<Record<number, number>>({});
+  const [pollDrafts, setPollDrafts] = useState<Record<number, PollDraft>>({});
+  const [extensions, setExtensions] = useState<Record<number, string>>({});
   const [decryptedResults, setDecryptedResults] = useState<Record<number, DecryptedResults>>({});
+  const [interimResults, setInterimResults] = useState<Record<number, number[]>>({});
+  const [allowlists, setAllowlists] = useState<Record<string, Allowlist>>({});
+  const [allowlistUrl, setAllowlistUrl] = useState('');
+  const [relayerUrl, setRelayerUrl] = useState(DEFAULT_RELAYER_URL);
+  // Optional event indexer that lists who voted and when. Left empty, the app only reads the contract.
+  const [indexerUrl, setIndexerUrl] = useState('');
+  const [indexedPolls, setIndexedPolls] = useState<Record<number, IndexedPoll>>({});
+  const [indexedBlock, setIndexedBlock] = useState<number | null>(null);
+  const [voterLists, setVoterLists] = useState<Record<number, IndexedVoter[]>>({});
+  // KMS signature checks of published results, as `task:verify-results` runs them.
+  const [verifications, setVerifications] = useState<Record<number, BundleVerification>>({});
   const [notice, setNotice] = useState<Notice | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [pendingAction, setPendingAction] = useState<string | null>(null);
   const [refreshNonce, setRefreshNonce] = useState(0);
   const [now, setNow] = useState(() => Date.now());
 
   const [title, setTitle] = useState('');
   const [options, setOptions] = useState<string[]>(['', '']);
+  const [questionDrafts, setQuestionDrafts] = useState<QuestionDraft[]>([emptyQuestion()]);
   const [startTime, setStartTime] = useState('');
   const [endTime, setEndTime] = useState('');
+  const [eligibilityRoot, setEligibilityRoot] = useState('');
+  const [weightToken, setWeightToken] = useState('');
+  const [membershipToken, setMembershipToken] = useState('');
+  const [pollKind, setPollKind] = useState(POLL_KIND_SINGLE_CHOICE);
+  const [quorum, setQuorum] = useState('');
+  const [threshold, setThreshold] = useState('');
+  const [creatorCanPeek, setCreatorCanPeek] = useState(false);
+  const [minParticipants, setMinParticipants] = useState('');
+  const [revealWinnerOnly, setRevealWinnerOnly] = useState(false);
 
   const activeAddress = useMemo(() => (isAddress(contractAddress) ? contractAddress : undefined), [contractAddress]);
+  const activeLens = useMemo(() => (isAddress(lensAddress) ? lensAddress : undefined), [lensAddress]);
+  // Newest polls listed, kept across refreshes so that pages opened with "Load more" stay listed.
+  const loadedDepth = useRef(PAGE_SIZE);
 
   useEffect(() => {
     const timer = window.setInterval(() => setNow(Date.now()), 30000);
     return () => window.clearInterval(timer);
   }, []);
 
+  // Counts other than the total cover the polls loaded so far.
   const pollStats = useMemo(() => {
-    const total = polls.length;
+    const total = pollTotal;
     const active = polls.filter((poll) => getPhase(poll, now) === 'active').length;
     const upcoming = polls.filter((poll) => getPhase(poll, now) === 'upcoming').length;
-    const finalized = polls.filter((poll) => poll.finalized).length;
+    const finalized = polls.filter((poll) => poll.finalized && poll.outcome !== OUTCOME_INSUFFICIENT_TURNOUT).length;
     const published = polls.filter((poll) => poll.resultsPublished).length;
     return { total, active, upcoming, finalized, published };
-  }, [polls, now]);
+  }, [polls, pollTotal, now]);
+
+  // Membership tokens of the connected wallet that can vote in a poll, read from the ERC-721 Enumerable extension.
+  const listMemberTokens = useCallback(
+    async (pollId: number, membershipToken: `0x${string}`, userVoted: boolean) => {
+      if (!publicClient || !activeAddress || !address || membershipToken === ZERO_ADDRESS) {
+        return [];
+      }
+      try {
+        const balance = (await publicClient.readContract({
+          address: membershipToken,
+          abi: ERC721_ENUMERABLE_ABI,
+          functionName: 'balanceOf',
+          args: [address],
+        })) as bigint;
+        const owned = await Promise.all(
+          Array.from({ length: Number(balance) }, (_, index) =>
+            publicClient.readContract({
+              address: membershipToken,
+              abi: ERC721_ENUMERABLE_ABI,
+              functionName: 'tokenOfOwnerByIndex',
+              args: [address, BigInt(index)],
+            }),
+          ),
+        );
+        const tokenVoters = await Promise.all(
+          owned.map(
+            (tokenId) =>
+              publicClient.readContract({
+                address: activeAddress,
+                abi: CONTRACT_ABI,
+                functionName: 'getTokenVoter',
+                args: [BigInt(pollId), tokenId],
+              }) as Promise<`0x${string}`>,
+          ),
+        );
+        const votedWith = owned.filter((_, index) => tokenVoters[index].toLowerCase() === address.toLowerCase());
+        // A voter changes a ballot only with the token it was cast with.
+        return userVoted ? votedWith : owned.filter((_, index) => tokenVoters[index] === ZERO_ADDRESS);
+      } catch (error) {
+        console.warn(`Could not list membership tokens for poll ${pollId}`, error);
+        return [];
+      }
+    },
+    [activeAddress, address, publicClient],
+  );
+
+  // Reads `limit` polls from id `offset` through MetaVoteLens, one getPolls call per page.
+  const readPolls = useCallback(
+    async (offset: number, limit: number): Promise<PollRecord[]> => {
+      if (!publicClient || !activeLens) {
+        return [];
+      }
+      const pages = await Promise.all(
+        Array.from(
+          { length: Math.ceil(limit / PAGE_SIZE) },
+          (_, page) =>
+            publicClient.readContract({
+              address: activeLens,
+              abi: LENS_ABI,
+              functionName: 'getPolls',
+              args: [
+                BigInt(offset + page * PAGE_SIZE),
+                BigInt(Math.min(PAGE_SIZE, limit - page * PAGE_SIZE)),
+                address ?? ZERO_ADDRESS,
+              ],
+            }) as Promise<readonly LensPollRecord[]>,
+        ),
+      );
+
+      return Promise.all(
+        pages.flat().map(async (record) => {
+          const pollId = Number(record.id);
+          const { settings, proposal, voter } = record;
+          return {
+            id: pollId,
+            title: record.title,
+            options: [...record.options],
+            startTime: record.startTime,
+            endTime: record.endTime,
+            optionCount: BigInt(record.options.length),
+            finalized: record.finalized,
+            resultsPublished: record.resultsPublished,
+            creator: record.creator,
+            cancelled: record.cancelled,
+            creatorCanPeek: settings.creatorCanPeek,
+            userVoted: voter.voted,
+            kind: Number(settings.kind),
+            eligibilityRoot: settings.eligibilityRoot,
+            weightToken: settings.weightToken,
+            membershipToken: settings.membershipToken,
+            memberTokens: await listMemberTokens(pollId, settings.membershipToken, voter.voted),
+            quorum: Number(settings.quorum),
+            thresholdBps: Number(settings.thresholdBps),
+            minParticipants: Number(settings.minParticipants),
+            revealWinnerOnly: settings.revealWinnerOnly,
+            voterCount: Number(record.voterCount),
+            cohorts: [...record.cohorts],
+            cohortVoters: [...record.cohortVoters],
+            userCohort: voter.inCohort ? Number(voter.cohort) : undefined,
+            actions: [...proposal.actions],
+            executionDelay: proposal.executionDelay,
+            executableAt: proposal.executableAt,
+            executed: proposal.executed,
+            outcome: Number(record.outcome),
+            winningOption: Number(record.winningOption),
+            publishedResults: record.resultsPublished ? record.results.map((value) => Number(value)) : undefined,
+            publishedProof: record.resultsPublished ? record.proof : undefined,
+            delegatee: voter.delegatee,
+            representative: voter.representative,
+            delegations: Number(voter.delegations),
+            carriedWeight: voter.weight,
+            questions: [...record.questions],
+            questionSizes: record.questionSizes.map(Number),
+          };
+        }),
+      );
+    },
+    [activeLens, address, listMemberTokens, publicClient],
+  );
 
   const fetchPolls = useCallback(async () => {
-    if (!publicClient || !activeAddress) {
+    if (!publicClient || !activeAddress || !activeLens) {
       setPolls([]);
+      setPollTotal(0);
       return;
     }
 
@@ -160,90 +626,253 @@ export function VoteApp() {
     setNotice(null);
 
     try {
-      const count = (await publicClient.readContract({
-        address: activeAddress,
-        abi: CONTRACT_ABI,
-        functionName: 'getPollCount',
-      })) as bigint;
+      const [count, lensTarget] = await Promise.all([
+        publicClient.readContract({
+          address: activeAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getPollCount',
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: activeLens,
+          abi: LENS_ABI,
+          functionName: 'META_VOTE',
+        }) as Promise<`0x${string}`>,
+      ]);
+      if (lensTarget.toLowerCase() !== activeAddress.toLowerCase()) {
+        setPolls([]);
+        setPollTotal(0);
+        setNotice({ type: 'error', text: 'This MetaVoteLens reads another MetaVote contract. Check both addresses.' });
+        return;
+      }
 
       const total = Number(count);
-      const pollIds = Array.from({ length: total }, (_, index) => index);
-
-      const fetched = await Promise.all(
-        pollIds.map(async (pollId) => {
-          const summary = (await publicClient.readContract({
-            address: activeAddress,
-            abi: CONTRACT_ABI,
-            functionName: 'getPollSummary',
-            args: [BigInt(pollId)],
-          })) as readonly [string, bigint, bigint, bigint, boolean, boolean, `0x${string}`];
-
-          const [pollTitle, start, end, optionCount, finalized, resultsPublished, creator] = summary;
-
-          const pollOptions = (await publicClient.readContract({
-            address: activeAddress,
-            abi: CONTRACT_ABI,
-            functionName: 'getPollOptions',
-            args: [BigInt(pollId)],
-          })) as string[];
-
-          const userVoted = address
-            ? ((await publicClient.readContract({
-                address: activeAddress,
-                abi: CONTRACT_ABI,
-                functionName: 'hasUserVoted',
-                args: [BigInt(pollId), address],
-              })) as boolean)
-            : false;
+      const from = Math.max(total - loadedDepth.current, 0);
+      const fetched = await readPolls(from, total - from);
 
-          let publishedResults: number[] | undefined;
-          let publishedProof: `0x${string}` | undefined;
+      fetched.sort((a, b) => Number(b.endTime - a.endTime));
+      setPolls(fetched);
+      setPollTotal(total);
 
-          if (resultsPublished) {
-            const published = (await publicClient.readContract({
+      setGlobalDelegate(
+        address
+          ? ((await publicClient.readContract({
               address: activeAddress,
               abi: CONTRACT_ABI,
-              functionName: 'getPublishedResults',
-              args: [BigInt(pollId)],
-            })) as readonly [readonly number[], `0x${string}`];
-
-            publishedResults = published[0].map((value) => Number(value));
-            publishedProof = published[1];
-          }
-
-          return {
-            id: pollId,
-            title: pollTitle,
-            options: pollOptions,
-            startTime: start,
-            endTime: end,
-            optionCount,
-            finalized,
-            resultsPublished,
-            creator,
-            userVoted,
-            publishedResults,
-            publishedProof,
-          };
-        }),
+              functionName: 'getDelegate',
+              args: [address],
+            })) as `0x${string}`)
+          : ZERO_ADDRESS,
       );
-
-      fetched.sort((a, b) => Number(b.endTime - a.endTime));
-      setPolls(fetched);
     } catch (error) {
       console.error('Failed to fetch polls:', error);
-      setNotice({ type: 'error', text: 'Unable to load polls from Sepolia. Check the address and try again.' });
+      setNotice({ type: 'error', text: 'Unable to load polls from Sepolia. Check the addresses and try again.' });
     } finally {
       setLoading(false);
     }
-  }, [activeAddress, address, publicClient]);
+  }, [activeAddress, activeLens, address, publicClient, readPolls]);
+
+  // Another contract starts again from its newest page.
+  useEffect(() => {
+    loadedDepth.current = PAGE_SIZE;
+    setVerifications({});
+  }, [activeAddress, activeLens]);
 
   useEffect(() => {
     fetchPolls();
   }, [fetchPolls, refreshNonce]);
 
+  // Listed polls are the newest ones, so the next page ends just before the oldest of them.
+  const loadMorePolls = async () => {
+    const end = pollTotal - polls.length;
+    const from = Math.max(end - PAGE_SIZE, 0);
+    setLoadingMore(true);
+    try {
+      const older = await readPolls(from, end - from);
+      loadedDepth.current = pollTotal - from;
+      setPolls((current) => [...current, ...older].sort((a, b) => Number(b.endTime - a.endTime)));
+    } catch (error) {
+      console.error('Failed to load more polls:', error);
+      setNotice({ type: 'error', text: 'Unable to load older polls. Try again.' });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const indexerEndpoint = indexerUrl.trim().replace(/\/+$/, '');
+
+  const fetchIndexedPolls = useCallback(async () => {
+    setVoterLists({});
+    if (!indexerEndpoint || !activeAddress) {
+      setIndexedPolls({});
+      setIndexedBlock(null);
+      return;
+    }
+    try {
+      const response = await fetch(`${indexerEndpoint}/polls`);
+      if (!response.ok) {
+        throw new Error(`Indexer request failed with ${response.status}`);
+      }
+      const body = (await response.json()) as { contract: string; indexedBlock: number; polls: IndexedPoll[] };
+      if (body.contract.toLowerCase() !== activeAddress.toLowerCase()) {
+        throw new Error(`The indexer follows ${body.contract}`);
+      }
+      setIndexedPolls(Object.fromEntries(body.polls.map((poll) => [poll.id, poll])));
+      setIndexedBlock(body.indexedBlock);
+    } catch (error) {
+      console.warn('Indexer unavailable:', error);
+      setIndexedPolls({});
+      setIndexedBlock(null);
+    }
+  }, [activeAddress, indexerEndpoint]);
+
+  useEffect(() => {
+    fetchIndexedPolls();
+  }, [fetchIndexedPolls, refreshNonce]);
+
+  // Published results never change, so each poll is checked once against the signer set of the KMSVerifier. The
+  // handles are derived from the poll tallies, except in winner-only polls that publish their own.
+  useEffect(() => {
+    const unchecked = polls.filter((poll) => poll.publishedResults && !verifications[poll.id]);
+    if (!publicClient || !activeAddress || unchecked.length === 0) {
+      return;
+    }
+    let stale = false;
+    const read = (functionName: 'getKmsSigners' | 'getThreshold' | 'eip712Domain') =>
+      publicClient.readContract({ address: KMS_VERIFIER_ADDRESS, abi: KMS_VERIFIER_ABI, functionName });
+    const readPoll = (functionName: 'getDecryptionHandles' | 'getEncryptedTallies' | 'getCohorts', pollId: number) =>
+      publicClient.readContract({ address: activeAddress, abi: CONTRACT_ABI, functionName, args: [BigInt(pollId)] });
+    const verify = async () => {
+      const [signers, threshold, domain] = (await Promise.all([
+        read('getKmsSigners'),
+        read('getThreshold'),
+        read('eip712Domain'),
+      ])) as [readonly `0x${string}`[], bigint, readonly [string, string, string, bigint, `0x${string}`]];
+      const kms: KmsConfig = {
+        domain: { name: domain[1], version: domain[2], chainId: Number(domain[3]), verifyingContract: domain[4] },
+        signers: [...signers],
+        threshold: Number(threshold),
+      };
+      const checked = await Promise.all(
+        unchecked.map(async (poll) => {
+          const [handles, tallies, [, cohortTallies]] = (await Promise.all([
+            readPoll('getDecryptionHandles', poll.id),
+            readPoll('getEncryptedTallies', poll.id),
+            readPoll('getCohorts', poll.id),
+          ])) as [
+            readonly `0x${string}`[],
+            readonly `0x${string}`[],
+            readonly [readonly string[], readonly `0x${string}`[], readonly number[]],
+          ];
+          const verification = verifyResultsBundle(
+            {
+              poll: { cohorts: poll.cohorts, settings: { revealWinnerOnly: poll.revealWinnerOnly } },
+              tallyCount: tallyCountFor(poll.kind, poll.options.length, poll.questions.length),
+              handles: [...handles],
+              clearTallies: poll.publishedResults ?? [],
+              publicDecryptionProof: poll.publishedProof ?? '0x',
+            },
+            kms,
+            poll.revealWinnerOnly ? undefined : [...tallies, ...cohortTallies],
+          );
+          return [poll.id, verification] as const;
+        }),
+      );
+      if (!stale) {
+        setVerifications((prev) => ({ ...prev, ...Object.fromEntries(checked) }));
+      }
+    };
+    verify().catch((error) => console.warn('Results verification failed:', error));
+    return () => {
+      stale = true;
+    };
+  }, [activeAddress, polls, publicClient, verifications]);
+
   const refresh = () => setRefreshNonce((value) => value + 1);
 
+  const registerAllowlist = (text: string) => {
+    try {
+      const tree = parseAllowlist(text);
+      setAllowlists((prev) => ({ ...prev, [tree.root.toLowerCase()]: tree }));
+      setNotice({ type: 'success', text: `Allowlist loaded (root ${tree.root}).` });
+    } catch (error) {
+      console.error('Allowlist parsing failed:', error);
+      setNotice({ type: 'error', text: 'Unable to read the allowlist. Use a proof file or an address list.' });
+    }
+  };
+
+  const handleAllowlistFile = async (file: File | undefined) => {
+    if (file) {
+      registerAllowlist(await file.text());
+    }
+  };
+
+  const handleAllowlistUrl = async () => {
+    if (!allowlistUrl.trim()) {
+      setNotice({ type: 'error', text: 'Enter the allowlist URL first.' });
+      return;
+    }
+
+    setPendingAction('allowlist');
+    try {
+      const response = await fetch(allowlistUrl.trim());
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      registerAllowlist(await response.text());
+    } catch (error) {
+      console.error('Allowlist download failed:', error);
+      setNotice({ type: 'error', text: 'Unable to download the allowlist from that URL.' });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const getEligibility = (poll: PollRecord) => {
+    if (poll.eligibilityRoot === OPEN_POLL_ROOT) {
+      return { status: 'open' as const, proof: [] as `0x${string}`[] };
+    }
+    const tree = allowlists[poll.eligibilityRoot.toLowerCase()];
+    if (!tree) {
+      return { status: 'missing' as const, proof: undefined };
+    }
+    const proof = address ? getAllowlistProof(tree, address) : undefined;
+    return proof ? { status: 'eligible' as const, proof } : { status: 'ineligible' as const, proof: undefined };
+  };
+
+  const getRanking = (poll: PollRecord) => rankings[poll.id] ?? poll.options.map((_, optionIndex) => optionIndex);
+
+  const moveRanked = (poll: PollRecord, position: number, offset: number) => {
+    const ranking = [...getRanking(poll)];
+    const target = position + offset;
+    if (target < 0 || target >= ranking.length) {
+      return;
+    }
+    [ranking[position], ranking[target]] = [ranking[target], ranking[position]];
+    setRankings((prev) => ({ ...prev, [poll.id]: ranking }));
+  };
+
+  const getScores = (poll: PollRecord) => scoreSelections[poll.id] ?? poll.options.map(() => 0);
+
+  // The membership token picked for a poll, or the first eligible one. Undefined for polls without a membership NFT.
+  const getMemberToken = (poll: PollRecord) => {
+    const picked = tokenSelections[poll.id];
+    return poll.memberTokens.find((tokenId) => tokenId.toString() === picked) ?? poll.memberTokens[0];
+  };
+
+  const setScore = (poll: PollRecord, optionIndex: number, value: number) => {
+    const score = Math.min(Math.max(Math.round(value) || 0, 0), MAX_SCORE);
+    const scores = getScores(poll).map((current, idx) => (idx === optionIndex ? score : current));
+    setScoreSelections((prev) => ({ ...prev, [poll.id]: scores }));
+  };
+
+  const setAnswer = (poll: PollRecord, questionIndex: number, answer: number) => {
+    setSurveyAnswers((prev) => {
+      const answers = [...(prev[poll.id] ?? [])];
+      answers[questionIndex] = answer;
+      return { ...prev, [poll.id]: answers };
+    });
+  };
+
   const ensureSepolia = () => {
     if (chainId !== SEPOLIA_CHAIN_ID) {
       setNotice({ type: 'error', text: 'Switch your wallet to Sepolia before submitting transactions.' });
@@ -266,13 +895,22 @@ export function VoteApp() {
       return;
     }
 
-    const sanitizedOptions = options.map((option) => option.trim());
+    // A survey lists the options of every question in turn.
+    const survey = pollKind === POLL_KIND_SURVEY;
+    const sanitizedOptions = survey
+      ? questionDrafts.flatMap((question) => question.options.map((option) => option.trim()))
+      : options.map((option) => option.trim());
     if (!title.trim()) {
       setNotice({ type: 'error', text: 'Poll title is required.' });
       return;
     }
-    if (sanitizedOptions.length < 2 || sanitizedOptions.length > 4) {
-      setNotice({ type: 'error', text: 'Provide between 2 and 4 options.' });
+    if (survey && questionDrafts.some((question) => !question.text.trim() || question.options.length < 2)) {
+      setNotice({ type: 'error', text: 'Give every survey question a text and at least 2 options.' });
+      return;
+    }
+    const maxOptions = maxOptionsFor(pollKind);
+    if (sanitizedOptions.length < 2 || sanitizedOptions.length > maxOptions) {
+      setNotice({ type: 'error', text: `Provide between 2 and ${maxOptions} options.` });
       return;
     }
     if (sanitizedOptions.some((option) => !option)) {
@@ -294,6 +932,58 @@ export function VoteApp() {
       setNotice({ type: 'error', text: 'End time must be in the future.' });
       return;
     }
+    const root = eligibilityRoot.trim() || OPEN_POLL_ROOT;
+    if (!isBytes32(root)) {
+      setNotice({ type: 'error', text: 'The allowlist root must be a 32-byte hex value.' });
+      return;
+    }
+    const token = weightToken.trim() || ZERO_ADDRESS;
+    if (!isAddress(token)) {
+      setNotice({ type: 'error', text: 'The weight token must be a valid address.' });
+      return;
+    }
+    const membership = membershipToken.trim() || ZERO_ADDRESS;
+    if (!isAddress(membership)) {
+      setNotice({ type: 'error', text: 'The membership NFT must be a valid address.' });
+      return;
+    }
+    const quorumValue = Number(quorum.trim() || '0');
+    if (!Number.isInteger(quorumValue) || quorumValue < 0 || quorumValue > 0xffffffff) {
+      setNotice({ type: 'error', text: 'The quorum must be a whole number of votes.' });
+      return;
+    }
+    const minParticipantsValue = Number(minParticipants.trim() || '0');
+    if (!Number.isInteger(minParticipantsValue) || minParticipantsValue < 0 || minParticipantsValue > 0xffffffff) {
+      setNotice({ type: 'error', text: 'The minimum turnout must be a whole number of voters.' });
+      return;
+    }
+    const thresholdBps = Math.round(Number(threshold.trim() || '0') * 100);
+    if (Number.isNaN(thresholdBps) || thresholdBps < 0 || thresholdBps >= 10000) {
+      setNotice({ type: 'error', text: 'The pass threshold must be a percentage below 100.' });
+      return;
+    }
+    if (revealWinnerOnly && (pollKind === POLL_KIND_RANKED || quorumValue > 0 || thresholdBps > 0)) {
+      setNotice({
+        type: 'error',
+        text: 'Winner-only polls cannot be ranked or use a quorum or threshold, which need the counts.',
+      });
+      return;
+    }
+    if (revealWinnerOnly && creatorCanPeek) {
+      setNotice({ type: 'error', text: 'Winner-only polls cannot let the creator peek at the counts.' });
+      return;
+    }
+    if (creatorCanPeek && minParticipantsValue > 0) {
+      setNotice({ type: 'error', text: 'A minimum turnout cannot protect voters from a creator who peeks.' });
+      return;
+    }
+    if (survey && (revealWinnerOnly || quorumValue > 0 || thresholdBps > 0)) {
+      setNotice({
+        type: 'error',
+        text: 'Surveys pick no winner, so they cannot use winner-only, a quorum or a threshold.',
+      });
+      return;
+    }
 
     if (!signerPromise) {
       setNotice({ type: 'error', text: 'Wallet signer not ready yet.' });
@@ -304,13 +994,44 @@ export function VoteApp() {
     try {
       const signer = await signerPromise;
       const contract = new Contract(activeAddress, CONTRACT_ABI, signer);
-      const tx = await contract.createPoll(title.trim(), sanitizedOptions, BigInt(start), BigInt(end));
+      const settings = {
+        kind: pollKind,
+        eligibilityRoot: root,
+        weightToken: token,
+        quorum: quorumValue,
+        thresholdBps,
+        creatorCanPeek,
+        minParticipants: minParticipantsValue,
+        revealWinnerOnly,
+        membershipToken: membership,
+      };
+      const tx = survey
+        ? await contract.createSurvey(
+            title.trim(),
+            questionDrafts.map((question) => question.text.trim()),
+            questionDrafts.map((question) => question.options.length),
+            sanitizedOptions,
+            BigInt(start),
+            BigInt(end),
+            settings,
+          )
+        : await contract.createPoll(title.trim(), sanitizedOptions, BigInt(start), BigInt(end), settings);
       await tx.wait();
       setNotice({ type: 'success', text: 'Poll created successfully.' });
       setTitle('');
       setOptions(['', '']);
+      setQuestionDrafts([emptyQuestion()]);
       setStartTime('');
       setEndTime('');
+      setEligibilityRoot('');
+      setWeightToken('');
+      setMembershipToken('');
+      setPollKind(POLL_KIND_SINGLE_CHOICE);
+      setQuorum('');
+      setThreshold('');
+      setCreatorCanPeek(false);
+      setMinParticipants('');
+      setRevealWinnerOnly(false);
       refresh();
     } catch (error) {
       console.error('Create poll failed:', error);
@@ -320,47 +1041,149 @@ export function VoteApp() {
     }
   };
 
-  const handleVote = async (pollId: number) => {
+  // Checks shared by direct and signed votes. Returns the values to encrypt and the allowlist proof, or null.
+  const prepareBallot = (poll: PollRecord) => {
     if (!activeAddress) {
       setNotice({ type: 'error', text: 'Set a valid MetaVote contract address first.' });
-      return;
+      return null;
     }
 
     if (!address) {
       setNotice({ type: 'error', text: 'Connect your wallet to vote.' });
-      return;
+      return null;
     }
     if (!ensureSepolia()) {
-      return;
+      return null;
     }
 
     if (!instance) {
       setNotice({ type: 'error', text: 'Encryption service is not ready yet.' });
-      return;
+      return null;
     }
 
-    const choice = voteSelections[pollId];
-    if (choice === undefined) {
+    const pollId = poll.id;
+    const scored = poll.kind === POLL_KIND_SCORE;
+    const survey = poll.kind === POLL_KIND_SURVEY;
+    const choice = abstentions[pollId]
+      ? ABSTAIN
+      : poll.kind === POLL_KIND_RANKED
+        ? rankingToIndex(getRanking(poll), poll.options.length)
+        : voteSelections[pollId];
+    const answers = poll.questions.map((_, questionIndex) => surveyAnswers[pollId]?.[questionIndex]);
+    if (survey && answers.some((answer) => answer === undefined)) {
+      setNotice({ type: 'error', text: 'Answer or abstain on every question before voting.' });
+      return null;
+    }
+    if (!scored && !survey && (choice === undefined || (poll.kind === POLL_KIND_APPROVAL && choice === 0))) {
       setNotice({ type: 'error', text: 'Select an option before voting.' });
-      return;
+      return null;
+    }
+
+    const eligibility = getEligibility(poll);
+    if (!eligibility.proof) {
+      setNotice({
+        type: 'error',
+        text:
+          eligibility.status === 'missing'
+            ? 'Load the allowlist for this poll before voting.'
+            : 'You are not eligible to vote in this poll.',
+      });
+      return null;
+    }
+
+    const tokenId = getMemberToken(poll);
+    if (poll.membershipToken !== ZERO_ADDRESS && tokenId === undefined) {
+      setNotice({ type: 'error', text: 'This wallet holds no membership token that can vote in this poll.' });
+      return null;
     }
 
     if (!signerPromise) {
       setNotice({ type: 'error', text: 'Wallet signer not ready yet.' });
+      return null;
+    }
+
+    return {
+      contractAddress: activeAddress,
+      voter: address,
+      values: scored ? getScores(poll) : survey ? (answers as number[]) : [choice],
+      proof: eligibility.proof,
+      tokenId,
+    };
+  };
+
+  const clearReceipt = (pollId: number) =>
+    setReceipts((prev) => {
+      const next = { ...prev };
+      delete next[pollId];
+      return next;
+    });
+
+  const toggleVoters = async (pollId: number) => {
+    if (voterLists[pollId]) {
+      setVoterLists((prev) => {
+        const next = { ...prev };
+        delete next[pollId];
+        return next;
+      });
+      return;
+    }
+
+    setPendingAction(`voters-${pollId}`);
+    try {
+      const response = await fetch(`${indexerEndpoint}/polls/${pollId}/voters`);
+      if (!response.ok) {
+        throw new Error(`Indexer request failed with ${response.status}`);
+      }
+      const { voters } = (await response.json()) as { voters: IndexedVoter[] };
+      setVoterLists((prev) => ({ ...prev, [pollId]: voters }));
+    } catch (error) {
+      console.error('Failed to load voters:', error);
+      setNotice({ type: 'error', text: 'Unable to load the voters from the indexer.' });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleVote = async (poll: PollRecord) => {
+    const pollId = poll.id;
+    const ballot = prepareBallot(poll);
+    if (!ballot || !signerPromise) {
       return;
     }
 
     setPendingAction(`vote-${pollId}`);
     try {
-      const input = instance.createEncryptedInput(activeAddress, address);
-      input.add32(choice);
+      const input = instance.createEncryptedInput(ballot.contractAddress, ballot.voter);
+      ballot.values.forEach((value) => input.add32(value));
       const encrypted = await input.encrypt();
 
       const signer = await signerPromise;
-      const contract = new Contract(activeAddress, CONTRACT_ABI, signer);
-      const tx = await contract.castVote(pollId, encrypted.handles[0], encrypted.inputProof);
+      const contract = new Contract(ballot.contractAddress, CONTRACT_ABI, signer);
+      const { tokenId } = ballot;
+      const { handles, inputProof } = encrypted;
+      let tx;
+      if (poll.kind === POLL_KIND_SCORE) {
+        tx =
+          tokenId === undefined
+            ? await contract.castScores(pollId, handles, inputProof, ballot.proof)
+            : await contract.castScoresWithToken(pollId, tokenId, handles, inputProof, ballot.proof);
+      } else if (poll.kind === POLL_KIND_SURVEY) {
+        tx =
+          tokenId === undefined
+            ? await contract.castAnswers(pollId, handles, inputProof, ballot.proof)
+            : await contract.castAnswersWithToken(pollId, tokenId, handles, inputProof, ballot.proof);
+      } else {
+        tx =
+          tokenId === undefined
+            ? await contract.castVote(pollId, handles[0], inputProof, ballot.proof)
+            : await contract.castVoteWithToken(pollId, tokenId, handles[0], inputProof, ballot.proof);
+      }
       await tx.wait();
-      setNotice({ type: 'success', text: 'Encrypted vote submitted.' });
+      setNotice({
+        type: 'success',
+        text: poll.userVoted ? 'Encrypted vote replaced. Only your latest ballot counts.' : 'Encrypted vote submitted.',
+      });
+      clearReceipt(pollId);
       refresh();
     } catch (error) {
       console.error('Vote failed:', error);
@@ -368,75 +1191,576 @@ export function VoteApp() {
     } finally {
       setPendingAction(null);
     }
-  };
+  };
+
+  // Gasless vote: the choice is encrypted for the relayer, which submits it, and the wallet only signs it.
+  const handleSignVote = async (poll: PollRecord) => {
+    const pollId = poll.id;
+    const ballot = prepareBallot(poll);
+    if (!ballot || !signerPromise || !publicClient) {
+      return;
+    }
+    const endpoint = relayerUrl.trim().replace(/\/+$/, '');
+
+    setPendingAction(`sign-${pollId}`);
+    try {
+      const info = await fetch(`${endpoint}/relayer`);
+      if (!info.ok) {
+        throw new Error(`Relayer info request failed with ${info.status}`);
+      }
+      const { relayer } = (await info.json()) as { relayer: string };
+      if (!isAddress(relayer)) {
+        throw new Error('Relayer did not report a valid address');
+      }
+
+      const input = instance.createEncryptedInput(ballot.contractAddress, relayer);
+      input.add32(ballot.values[0]);
+      const encrypted = await input.encrypt();
+      const encryptedChoice = hexlify(encrypted.handles[0]);
+      const inputProof = hexlify(encrypted.inputProof);
+
+      const nonce = (await publicClient.readContract({
+        address: ballot.contractAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'nonces',
+        args: [ballot.voter],
+      })) as bigint;
+      const deadline = Math.floor(Date.now() / 1000) + SIGNATURE_TTL_SECONDS;
+
+      const signer = await signerPromise;
+      const signature = await signer.signTypedData(
+        { name: 'MetaVote', version: '1', chainId: SEPOLIA_CHAIN_ID, verifyingContract: ballot.contractAddress },
+        VOTE_TYPES,
+        { pollId, encryptedChoice, inputProofHash: keccak256(inputProof), nonce, deadline },
+      );
+
+      const response = await fetch(`${endpoint}/ballots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pollId,
+          voter: ballot.voter,
+          relayer,
+          encryptedChoice,
+          inputProof,
+          eligibilityProof: ballot.proof,
+          nonce: nonce.toString(),
+          deadline,
+          signature,
+        }),
+      });
+      if (!response.ok) {
+        const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(error ?? `Relayer rejected the ballot with ${response.status}`);
+      }
+      setNotice({
+        type: 'success',
+        text: 'Signed ballot sent to the relayer. It counts once the relayer submits it; refresh to check.',
+      });
+      clearReceipt(pollId);
+    } catch (error) {
+      console.error('Signed vote failed:', error);
+      setNotice({
+        type: 'error',
+        text: `Could not hand the ballot to the relayer${error instanceof Error ? `: ${error.message}` : '.'}`,
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleFinalize = async (pollId: number) => {
+    if (!activeAddress) {
+      setNotice({ type: 'error', text: 'Set a valid MetaVote contract address first.' });
+      return;
+    }
+    if (!ensureSepolia()) {
+      return;
+    }
+    if (!signerPromise) {
+      setNotice({ type: 'error', text: 'Wallet signer not ready yet.' });
+      return;
+    }
+
+    setPendingAction(`finalize-${pollId}`);
+    try {
+      const signer = await signerPromise;
+      const contract = new Contract(activeAddress, CONTRACT_ABI, signer);
+      const tx = await contract.finalizePoll(pollId);
+      await tx.wait();
+      setNotice({ type: 'success', text: 'Poll finalized. Tallies are now publicly decryptable.' });
+      refresh();
+    } catch (error) {
+      console.error('Finalize failed:', error);
+      setNotice({ type: 'error', text: 'Finalize failed. Ensure the poll has ended.' });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const runContractAction = async (
+    actionKey: string,
+    send: (contract: Contract) => Promise<{ wait: () => Promise<unknown> }>,
+    successText: string,
+    failureText: string,
+  ) => {
+    if (!activeAddress) {
+      setNotice({ type: 'error', text: 'Set a valid MetaVote contract address first.' });
+      return false;
+    }
+    if (!ensureSepolia()) {
+      return false;
+    }
+    if (!signerPromise) {
+      setNotice({ type: 'error', text: 'Wallet signer not ready yet.' });
+      return false;
+    }
+
+    setPendingAction(actionKey);
+    try {
+      const signer = await signerPromise;
+      const contract = new Contract(activeAddress, CONTRACT_ABI, signer);
+      const tx = await send(contract);
+      await tx.wait();
+      setNotice({ type: 'success', text: successText });
+      refresh();
+      return true;
+    } catch (error) {
+      console.error(`${actionKey} failed:`, error);
+      setNotice({ type: 'error', text: failureText });
+      return false;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const startEditing = (poll: PollRecord) => {
+    setPollDrafts((prev) => ({ ...prev, [poll.id]: { title: poll.title, options: [...poll.options] } }));
+  };
+
+  const stopEditing = (pollId: number) => {
+    setPollDrafts((prev) => {
+      const next = { ...prev };
+      delete next[pollId];
+      return next;
+    });
+  };
+
+  const updateDraft = (pollId: number, update: (draft: PollDraft) => PollDraft) => {
+    setPollDrafts((prev) => (prev[pollId] ? { ...prev, [pollId]: update(prev[pollId]) } : prev));
+  };
+
+  const handleEditPoll = async (poll: PollRecord) => {
+    const draft = pollDrafts[poll.id];
+    if (!draft) {
+      return;
+    }
+    const draftOptions = draft.options.map((option) => option.trim());
+    if (!draft.title.trim() || draftOptions.some((option) => !option)) {
+      setNotice({ type: 'error', text: 'The title and option labels cannot be empty.' });
+      return;
+    }
+    const maxOptions = maxOptionsFor(poll.kind);
+    if (draftOptions.length < 2 || draftOptions.length > maxOptions) {
+      setNotice({ type: 'error', text: `Provide between 2 and ${maxOptions} options.` });
+      return;
+    }
+
+    const saved = await runContractAction(
+      `edit-${poll.id}`,
+      (contract) => contract.editPoll(poll.id, draft.title.trim(), draftOptions),
+      'Poll updated.',
+      'Edit failed. Polls can only be edited before they start.',
+    );
+    if (saved) {
+      stopEditing(poll.id);
+    }
+  };
+
+  const handleExtendPoll = async (poll: PollRecord) => {
+    const end = toUnixSeconds(extensions[poll.id] ?? '');
+    if (!end || end <= Number(poll.endTime)) {
+      setNotice({ type: 'error', text: 'Pick a new end time later than the current one.' });
+      return;
+    }
+
+    await runContractAction(
+      `extend-${poll.id}`,
+      (contract) => contract.extendPoll(poll.id, BigInt(end)),
+      'Poll extended.',
+      'Extension failed. Polls can only be extended before they end.',
+    );
+  };
+
+  const handleCancelPoll = async (poll: PollRecord) => {
+    if (!window.confirm(`Cancel "${poll.title}"? Its ballots will never be counted.`)) {
+      return;
+    }
+
+    await runContractAction(
+      `cancel-${poll.id}`,
+      (contract) => contract.cancelPoll(poll.id),
+      'Poll cancelled.',
+      'Cancel failed. Finalized polls cannot be cancelled.',
+    );
+  };
+
+  const handleExecute = async (poll: PollRecord) => {
+    await runContractAction(
+      `execute-${poll.id}`,
+      (contract) => contract.execute(poll.id),
+      'Proposal executed.',
+      'Execution failed. The timelock may not have elapsed, or the target call reverted.',
+    );
+  };
+
+  const handleDecrypt = async (pollId: number) => {
+    if (!activeAddress) {
+      setNotice({ type: 'error', text: 'Set a valid MetaVote contract address first.' });
+      return;
+    }
+    if (!instance) {
+      setNotice({ type: 'error', text: 'Encryption service is not ready yet.' });
+      return;
+    }
+    if (!publicClient) {
+      setNotice({ type: 'error', text: 'Public client not ready yet.' });
+      return;
+    }
+
+    setPendingAction(`decrypt-${pollId}`);
+    try {
+      const handles = (await publicClient.readContract({
+        address: activeAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getDecryptionHandles',
+        args: [BigInt(pollId)],
+      })) as readonly `0x${string}`[];
+
+      const decrypted = await instance.publicDecrypt(handles);
+      const clearTallies = handles.map((handle) => Number(decrypted.clearValues[handle] ?? 0));
+
+      setDecryptedResults((prev) => ({
+        ...prev,
+        [pollId]: {
+          tallies: clearTallies,
+          proof: decrypted.decryptionProof,
+        },
+      }));
+
+      setNotice({ type: 'success', text: 'Decryption completed. You can now publish results on-chain.' });
+    } catch (error) {
+      console.error('Decryption failed:', error);
+      setNotice({ type: 'error', text: 'Decryption failed. Ensure the poll is finalized.' });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  // Builds the same bundle as `task:export-results` from the published results and the poll events.
+  const handleDownloadResults = async (poll: PollRecord) => {
+    if (!publicClient || !activeAddress || !poll.publishedResults || !poll.publishedProof) {
+      setNotice({ type: 'error', text: 'The results of this poll are not published yet.' });
+      return;
+    }
+
+    setPendingAction(`download-${poll.id}`);
+    try {
+      const pollId = BigInt(poll.id);
+      const events = (eventName: 'PollCreated' | 'PollFinalized' | 'ResultsPublished' | 'VoteSubmitted') =>
+        publicClient.getContractEvents({
+          address: activeAddress,
+          abi: CONTRACT_ABI,
+          eventName,
+          args: { pollId },
+          fromBlock: 0n,
+        });
+      const blockOf = (logs: { blockNumber: bigint | null }[]) => Number(logs[0]?.blockNumber ?? 0n);
+      const [handles, chainId, created, finalized, published, votes, exported] = await Promise.all([
+        publicClient.readContract({
+          address: activeAddress,
+          abi: CONTRACT_ABI,
+          functionName: 'getDecryptionHandles',
+          args: [pollId],
+        }) as Promise<readonly `0x${string}`[]>,
+        publicClient.getChainId(),
+        events('PollCreated'),
+        events('PollFinalized'),
+        events('ResultsPublished'),
+        events('VoteSubmitted'),
+        publicClient.getBlockNumber(),
+      ]);
+
+      downloadResultsBundle({
+        format: RESULTS_FORMAT,
+        chainId: chainId.toString(),
+        contract: activeAddress,
+        poll: {
+          id: poll.id,
+          title: poll.title,
+          creator: poll.creator,
+          startTime: Number(poll.startTime),
+          endTime: Number(poll.endTime),
+          kind: poll.kind,
+          options: poll.options,
+          questions: poll.questions,
+          questionSizes: poll.questionSizes,
+          cohorts: poll.cohorts,
+          settings: {
+            eligibilityRoot: poll.eligibilityRoot,
+            weightToken: poll.weightToken,
+            membershipToken: poll.membershipToken,
+            quorum: poll.quorum,
+            thresholdBps: poll.thresholdBps,
+            minParticipants: poll.minParticipants,
+            revealWinnerOnly: poll.revealWinnerOnly,
+            creatorCanPeek: poll.creatorCanPeek,
+          },
+          outcome: poll.outcome,
+          winningOption: poll.winningOption,
+        },
+        tallyCount: tallyCountFor(poll.kind, poll.options.length, poll.questions.length),
+        handles: [...handles],
+        clearTallies: poll.publishedResults,
+        publicDecryptionProof: poll.publishedProof,
+        blocks: {
+          created: blockOf(created),
+          finalized: blockOf(finalized),
+          published: blockOf(published),
+          exported: Number(exported),
+        },
+        voters: votes.map((log) => (log.args as { voter: `0x${string}` }).voter),
+      });
+    } catch (error) {
+      console.error('Results export failed:', error);
+      setNotice({ type: 'error', text: 'Unable to read the poll events for the results bundle.' });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  // User decryption: the wallet signs a short-lived permit for a throwaway keypair, and the relayer re-encrypts the
+  // handles to that keypair only. The contract must have granted the handles to `user`.
+  const userDecrypt = async (
+    handles: readonly `0x${string}`[],
+    contractAddress: `0x${string}`,
+    user: `0x${string}`,
+    signerReady: NonNullable<typeof signerPromise>,
+  ) => {
+    const keypair = instance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const durationDays = 1;
+    const eip712 = instance.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, durationDays);
+    const signer = await signerReady;
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+    );
+    const decrypted = await instance.userDecrypt(
+      handles.map((handle) => ({ handle, contractAddress })),
+      keypair.privateKey,
+      keypair.publicKey,
+      signature.replace('0x', ''),
+      [contractAddress],
+      user,
+      startTimestamp,
+      durationDays,
+    );
+    return handles.map((handle) => Number(decrypted[handle] ?? 0));
+  };
+
+  const handleVerifyVote = async (poll: PollRecord) => {
+    if (!activeAddress) {
+      setNotice({ type: 'error', text: 'Set a valid MetaVote contract address first.' });
+      return;
+    }
+    if (!address || !signerPromise) {
+      setNotice({ type: 'error', text: 'Connect your wallet to verify your vote.' });
+      return;
+    }
+    if (!instance) {
+      setNotice({ type: 'error', text: 'Encryption service is not ready yet.' });
+      return;
+    }
+    if (!publicClient) {
+      setNotice({ type: 'error', text: 'Public client not ready yet.' });
+      return;
+    }
+
+    setPendingAction(`receipt-${poll.id}`);
+    try {
+      const handles = (await publicClient.readContract({
+        address: activeAddress,
+        abi: CONTRACT_ABI,
+        functionName: 'getMyBallot',
+        args: [BigInt(poll.id)],
+        account: address,
+      })) as readonly `0x${string}`[];
+
+      const values = await userDecrypt(handles, activeAddress, address, signerPromise);
+      setReceipts((prev) => ({ ...prev, [poll.id]: describeBallot(poll, values) }));
+    } catch (error) {
+      console.error('Vote verification failed:', error);
+      setNotice({ type: 'error', text: 'Could not decrypt your ballot. Only the voter can verify it.' });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleDelegate = async () => {
+    const delegatee = delegateInput.trim();
+    if (!isAddress(delegatee)) {
+      setNotice({ type: 'error', text: 'Enter the address of your delegate.' });
+      return;
+    }
+    const saved = await runContractAction(
+      'delegate',
+      (contract) => contract.delegate(delegatee),
+      'Delegation saved. Your vote counts with your delegate once they vote and count their delegators.',
+      'Delegation failed.',
+    );
+    if (saved) {
+      setDelegateInput('');
+    }
+  };
+
+  const handleUndelegate = async () => {
+    await runContractAction(
+      'undelegate',
+      (contract) => contract.undelegate(),
+      'Delegation cleared. Vote yourself or delegate again.',
+      'Clearing the delegation failed.',
+    );
+  };
+
+  const handlePollDelegate = async (poll: PollRecord) => {
+    const delegatee = (pollDelegateInputs[poll.id] ?? '').trim();
+    if (!isAddress(delegatee)) {
+      setNotice({ type: 'error', text: 'Enter the address of your delegate for this poll.' });
+      return;
+    }
+    await runContractAction(
+      `delegate-${poll.id}`,
+      (contract) => contract.delegatePoll(poll.id, delegatee),
+      'Delegation saved for this poll.',
+      'Delegation failed.',
+    );
+  };
+
+  const handlePollUndelegate = async (poll: PollRecord) => {
+    await runContractAction(
+      `delegate-${poll.id}`,
+      (contract) => contract.undelegatePoll(poll.id),
+      'This poll now follows your global delegation.',
+      'Clearing the delegation failed.',
+    );
+  };
+
+  // Counts everyone who named you as their delegate, globally or in this poll. Delegators further down a chain are
+  // counted by `task:count-delegations`.
+  const handleCountDelegators = async (poll: PollRecord) => {
+    if (!publicClient || !activeAddress || !address) {
+      setNotice({ type: 'error', text: 'Connect your wallet to count your delegators.' });
+      return;
+    }
+
+    setPendingAction(`count-${poll.id}`);
+    let delegators: `0x${string}`[] = [];
+    try {
+      const [global, local] = await Promise.all([
+        publicClient.getContractEvents({
+          address: activeAddress,
+          abi: CONTRACT_ABI,
+          eventName: 'DelegateChanged',
+          args: { delegatee: address },
+          fromBlock: 0n,
+        }),
+        publicClient.getContractEvents({
+          address: activeAddress,
+          abi: CONTRACT_ABI,
+          eventName: 'PollDelegateChanged',
+          args: { pollId: BigInt(poll.id), delegatee: address },
+          fromBlock: 0n,
+        }),
+      ]);
+      delegators = [
+        ...new Set(
+          [...global, ...local].map((log) => (log.args as { delegator: `0x${string}` }).delegator),
+        ),
+      ];
+    } catch (error) {
+      console.error('Failed to load delegators:', error);
+      setNotice({ type: 'error', text: 'Unable to load your delegators.' });
+      return;
+    } finally {
+      setPendingAction(null);
+    }
 
-  const handleFinalize = async (pollId: number) => {
-    if (!activeAddress) {
-      setNotice({ type: 'error', text: 'Set a valid MetaVote contract address first.' });
-      return;
+    let proofs: `0x${string}`[][] = [];
+    if (poll.eligibilityRoot !== OPEN_POLL_ROOT) {
+      const tree = allowlists[poll.eligibilityRoot.toLowerCase()];
+      if (!tree) {
+        setNotice({ type: 'error', text: 'Load the allowlist for this poll before counting delegators.' });
+        return;
+      }
+      const eligible = delegators.flatMap((delegator) => {
+        const proof = getAllowlistProof(tree, delegator);
+        return proof ? [{ delegator, proof }] : [];
+      });
+      delegators = eligible.map(({ delegator }) => delegator);
+      proofs = eligible.map(({ proof }) => proof);
     }
-    if (!ensureSepolia()) {
+    if (delegators.length === 0) {
+      setNotice({ type: 'error', text: 'Nobody eligible has delegated to you yet.' });
       return;
     }
-    if (!signerPromise) {
-      setNotice({ type: 'error', text: 'Wallet signer not ready yet.' });
+
+    await runContractAction(
+      `count-${poll.id}`,
+      (contract) => contract.countDelegations(poll.id, delegators, proofs),
+      `Counted ${delegators.length} delegator${delegators.length === 1 ? '' : 's'} with your ballot.`,
+      'Counting delegators failed. Try again with fewer options or delegators per transaction.',
+    );
+  };
+
+  const handleRevealWeight = async (poll: PollRecord) => {
+    if (!activeAddress || !address || !signerPromise || !instance) {
+      setNotice({ type: 'error', text: 'Connect your wallet and wait for the encryption service.' });
       return;
     }
 
-    setPendingAction(`finalize-${pollId}`);
+    setPendingAction(`weight-${poll.id}`);
     try {
-      const signer = await signerPromise;
-      const contract = new Contract(activeAddress, CONTRACT_ABI, signer);
-      const tx = await contract.finalizePoll(pollId);
-      await tx.wait();
-      setNotice({ type: 'success', text: 'Poll finalized. Tallies are now publicly decryptable.' });
-      refresh();
+      const [weight] = await userDecrypt([poll.carriedWeight], activeAddress, address, signerPromise);
+      setCarriedWeights((prev) => ({ ...prev, [poll.id]: weight }));
     } catch (error) {
-      console.error('Finalize failed:', error);
-      setNotice({ type: 'error', text: 'Finalize failed. Ensure the poll has ended.' });
+      console.error('Weight decryption failed:', error);
+      setNotice({ type: 'error', text: 'Could not decrypt the weight you carry.' });
     } finally {
       setPendingAction(null);
     }
   };
 
-  const handleDecrypt = async (pollId: number) => {
-    if (!activeAddress) {
-      setNotice({ type: 'error', text: 'Set a valid MetaVote contract address first.' });
-      return;
-    }
-    if (!instance) {
-      setNotice({ type: 'error', text: 'Encryption service is not ready yet.' });
-      return;
-    }
-    if (!publicClient) {
-      setNotice({ type: 'error', text: 'Public client not ready yet.' });
+  const handlePeek = async (poll: PollRecord) => {
+    if (!activeAddress || !address || !signerPromise || !instance || !publicClient) {
+      setNotice({ type: 'error', text: 'Connect your wallet and wait for the encryption service.' });
       return;
     }
 
-    setPendingAction(`decrypt-${pollId}`);
+    setPendingAction(`peek-${poll.id}`);
     try {
       const handles = (await publicClient.readContract({
         address: activeAddress,
         abi: CONTRACT_ABI,
         functionName: 'getEncryptedTallies',
-        args: [BigInt(pollId)],
+        args: [BigInt(poll.id)],
       })) as readonly `0x${string}`[];
-
-      const decrypted = await instance.publicDecrypt(handles);
-      const clearTallies = handles.map((handle) => Number(decrypted.clearValues[handle] ?? 0));
-
-      setDecryptedResults((prev) => ({
-        ...prev,
-        [pollId]: {
-          tallies: clearTallies,
-          proof: decrypted.decryptionProof,
-        },
-      }));
-
-      setNotice({ type: 'success', text: 'Decryption completed. You can now publish results on-chain.' });
+      const tallies = await userDecrypt(handles, activeAddress, address, signerPromise);
+      setInterimResults((prev) => ({ ...prev, [poll.id]: tallies }));
     } catch (error) {
-      console.error('Decryption failed:', error);
-      setNotice({ type: 'error', text: 'Decryption failed. Ensure the poll is finalized.' });
+      console.error('Peek failed:', error);
+      setNotice({ type: 'error', text: 'Could not decrypt the interim results.' });
     } finally {
       setPendingAction(null);
     }
@@ -482,13 +1806,20 @@ export function VoteApp() {
   };
 
   const addOption = () => {
-    setOptions((prev) => (prev.length >= 4 ? prev : [...prev, '']));
+    setOptions((prev) => (prev.length >= maxOptionsFor(pollKind) ? prev : [...prev, '']));
   };
 
   const removeOption = (index: number) => {
     setOptions((prev) => (prev.length <= 2 ? prev : prev.filter((_, idx) => idx !== index)));
   };
 
+  const updateQuestion = (questionIndex: number, update: (question: QuestionDraft) => QuestionDraft) => {
+    setQuestionDrafts((prev) => prev.map((question, idx) => (idx === questionIndex ? update(question) : question)));
+  };
+
+  // Survey options count against MAX_OPTIONS across all questions.
+  const surveyOptionCount = questionDrafts.reduce((total, question) => total + question.options.length, 0);
+
   return (
     <div className="vote-app">
       <Header />
@@ -545,6 +1876,17 @@ export function VoteApp() {
             <p className="helper-text">
               Use the address from `deployments/sepolia/MetaVote.json`. This is read directly from Sepolia.
             </p>
+            <label htmlFor="lensAddress">MetaVoteLens address</label>
+            <input
+              id="lensAddress"
+              type="text"
+              value={lensAddress}
+              onChange={(event) => setLensAddress(event.target.value.trim())}
+              placeholder="Paste the lens deployed with this MetaVote"
+            />
+            <p className="helper-text">
+              Use the address from `deployments/sepolia/MetaVoteLens.json`. It lists a page of polls per request.
+            </p>
           </div>
           <div className="contract-status">
             <div>
@@ -557,7 +1899,7 @@ export function VoteApp() {
             </div>
             <div>
               <span className="meta-label">Contract</span>
-              <span className="meta-value">{activeAddress ? 'Ready' : 'Missing'}</span>
+              <span className="meta-value">{activeAddress && activeLens ? 'Ready' : 'Missing'}</span>
             </div>
             <div>
               <span className="meta-label">Relayer</span>
@@ -566,6 +1908,135 @@ export function VoteApp() {
           </div>
         </section>
 
+        <section className="contract-panel">
+          <div className="contract-field">
+            <label htmlFor="allowlistUrl">Eligibility lists</label>
+            <div className="option-row">
+              <input
+                id="allowlistUrl"
+                type="text"
+                value={allowlistUrl}
+                onChange={(event) => setAllowlistUrl(event.target.value)}
+                placeholder="https://example.org/allowlist.json"
+              />
+              <button
+                className="ghost"
+                type="button"
+                onClick={handleAllowlistUrl}
+                disabled={pendingAction === 'allowlist'}
+              >
+                {pendingAction === 'allowlist' ? 'Loading...' : 'Load URL'}
+              </button>
+            </div>
+            <input
+              type="file"
+              accept=".json,.csv,.txt"
+              onChange={(event) => handleAllowlistFile(event.target.files?.[0])}
+            />
+            <p className="helper-text">
+              Load the proof file from `task:build-allowlist` or a list of addresses to vote in member-only polls. Your
+              Merkle proof is attached automatically.
+            </p>
+          </div>
+          <div className="contract-status">
+            <div>
+              <span className="meta-label">Loaded lists</span>
+              <span className="meta-value">{Object.keys(allowlists).length}</span>
+            </div>
+          </div>
+        </section>
+
+        <section className="contract-panel">
+          <div className="contract-field">
+            <label htmlFor="relayerUrl">Gasless voting</label>
+            <input
+              id="relayerUrl"
+              type="text"
+              value={relayerUrl}
+              onChange={(event) => setRelayerUrl(event.target.value.trim())}
+              placeholder={DEFAULT_RELAYER_URL}
+            />
+            <p className="helper-text">
+              "Sign only" encrypts your choice for this relayer and sends it your signed ballot. The relayer pays the
+              gas and the vote is credited to you. Run `npx hardhat task:relay-server` for a local relayer.
+            </p>
+          </div>
+          <div className="contract-status">
+            <div>
+              <span className="meta-label">Signatures expire</span>
+              <span className="meta-value">After {SIGNATURE_TTL_SECONDS / 3600} hour</span>
+            </div>
+          </div>
+        </section>
+
+        <section className="contract-panel">
+          <div className="contract-field">
+            <label htmlFor="indexerUrl">Event indexer (optional)</label>
+            <input
+              id="indexerUrl"
+              type="text"
+              value={indexerUrl}
+              onChange={(event) => setIndexerUrl(event.target.value.trim())}
+              placeholder="http://localhost:8788"
+            />
+            <p className="helper-text">
+              Poll cards show who voted and when, from the events this indexer follows. Run `npx hardhat task:indexer`
+              for a local one.
+            </p>
+          </div>
+          <div className="contract-status">
+            <div>
+              <span className="meta-label">Indexed block</span>
+              <span className="meta-value">
+                {indexedBlock !== null ? indexedBlock : indexerEndpoint ? 'Unavailable' : 'Off'}
+              </span>
+            </div>
+          </div>
+        </section>
+
+        <section className="contract-panel">
+          <div className="contract-field">
+            <label htmlFor="delegate">Delegation</label>
+            <div className="option-row">
+              <input
+                id="delegate"
+                type="text"
+                value={delegateInput}
+                onChange={(event) => setDelegateInput(event.target.value)}
+                placeholder="0x... delegate address"
+              />
+              <button
+                className="ghost"
+                type="button"
+                onClick={handleDelegate}
+                disabled={!isConnected || pendingAction === 'delegate'}
+              >
+                {pendingAction === 'delegate' ? 'Saving...' : 'Delegate'}
+              </button>
+            </div>
+            <p className="helper-text">
+              Your delegate votes for you in every poll unless you vote yourself or pick another delegate for a poll.
+              Delegates count their delegators from each poll card after voting.
+            </p>
+          </div>
+          <div className="contract-status">
+            <div>
+              <span className="meta-label">Current delegate</span>
+              <span className="meta-value">{globalDelegate === ZERO_ADDRESS ? 'None' : globalDelegate}</span>
+            </div>
+            {globalDelegate !== ZERO_ADDRESS && (
+              <button
+                className="ghost"
+                type="button"
+                onClick={handleUndelegate}
+                disabled={pendingAction === 'undelegate'}
+              >
+                {pendingAction === 'undelegate' ? 'Clearing...' : 'Clear delegation'}
+              </button>
+            )}
+          </div>
+        </section>
+
         {notice && (
           <div className={`notice notice-${notice.type}`}>
             <span>{notice.text}</span>
@@ -596,27 +2067,123 @@ export function VoteApp() {
                   placeholder="e.g. Favorite launch theme"
                 />
               </label>
-              <div className="field-group">
-                <span>Options</span>
-                {options.map((option, index) => (
-                  <div className="option-row" key={`option-${index}`}>
-                    <input
-                      type="text"
-                      value={option}
-                      onChange={(event) => handleOptionChange(index, event.target.value)}
-                      placeholder={`Option ${index + 1}`}
-                    />
-                    {options.length > 2 && (
-                      <button className="ghost" type="button" onClick={() => removeOption(index)}>
-                        Remove
+              {pollKind === POLL_KIND_SURVEY ? (
+                <div className="field-group">
+                  <span>Questions</span>
+                  {questionDrafts.map((question, questionIndex) => (
+                    <div className="field-group survey-question" key={`question-${questionIndex}`}>
+                      <div className="option-row">
+                        <input
+                          type="text"
+                          value={question.text}
+                          onChange={(event) =>
+                            updateQuestion(questionIndex, (current) => ({ ...current, text: event.target.value }))
+                          }
+                          placeholder={`Question ${questionIndex + 1}`}
+                        />
+                        {questionDrafts.length > 1 && (
+                          <button
+                            className="ghost"
+                            type="button"
+                            onClick={() => setQuestionDrafts((prev) => prev.filter((_, idx) => idx !== questionIndex))}
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                      {question.options.map((option, optionIndex) => (
+                        <div className="option-row" key={`question-${questionIndex}-option-${optionIndex}`}>
+                          <input
+                            type="text"
+                            value={option}
+                            onChange={(event) =>
+                              updateQuestion(questionIndex, (current) => ({
+                                ...current,
+                                options: current.options.map((value, idx) =>
+                                  idx === optionIndex ? event.target.value : value,
+                                ),
+                              }))
+                            }
+                            placeholder={`Answer ${optionIndex + 1}`}
+                          />
+                          {question.options.length > 2 && (
+                            <button
+                              className="ghost"
+                              type="button"
+                              onClick={() =>
+                                updateQuestion(questionIndex, (current) => ({
+                                  ...current,
+                                  options: current.options.filter((_, idx) => idx !== optionIndex),
+                                }))
+                              }
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                      <button
+                        className="ghost"
+                        type="button"
+                        onClick={() =>
+                          updateQuestion(questionIndex, (current) => ({
+                            ...current,
+                            options: [...current.options, ''],
+                          }))
+                        }
+                        disabled={surveyOptionCount >= MAX_OPTIONS}
+                      >
+                        Add answer
                       </button>
-                    )}
-                  </div>
-                ))}
-                <button className="ghost" type="button" onClick={addOption} disabled={options.length >= 4}>
-                  Add option
-                </button>
-              </div>
+                    </div>
+                  ))}
+                  <button
+                    className="ghost"
+                    type="button"
+                    onClick={() => setQuestionDrafts((prev) => [...prev, emptyQuestion()])}
+                    disabled={questionDrafts.length >= MAX_QUESTIONS || surveyOptionCount + 2 > MAX_OPTIONS}
+                  >
+                    Add question
+                  </button>
+                </div>
+              ) : (
+                <div className="field-group">
+                  <span>Options</span>
+                  {options.map((option, index) => (
+                    <div className="option-row" key={`option-${index}`}>
+                      <input
+                        type="text"
+                        value={option}
+                        onChange={(event) => handleOptionChange(index, event.target.value)}
+                        placeholder={`Option ${index + 1}`}
+                      />
+                      {options.length > 2 && (
+                        <button className="ghost" type="button" onClick={() => removeOption(index)}>
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    className="ghost"
+                    type="button"
+                    onClick={addOption}
+                    disabled={options.length >= maxOptionsFor(pollKind)}
+                  >
+                    Add option
+                  </button>
+                </div>
+              )}
+              <label className="field">
+                <span>Ballot type</span>
+                <select value={pollKind} onChange={(event) => setPollKind(Number(event.target.value))}>
+                  <option value={POLL_KIND_SINGLE_CHOICE}>Single choice</option>
+                  <option value={POLL_KIND_APPROVAL}>Approval - pick any number of options</option>
+                  <option value={POLL_KIND_RANKED}>Ranked - order every option (instant runoff)</option>
+                  <option value={POLL_KIND_SCORE}>Score - rate every option from 0 to {MAX_SCORE}</option>
+                  <option value={POLL_KIND_SURVEY}>Survey - several questions answered in one ballot</option>
+                </select>
+              </label>
               <label className="field">
                 <span>Start time</span>
                 <input type="datetime-local" value={startTime} onChange={(event) => setStartTime(event.target.value)} />
@@ -625,6 +2192,81 @@ export function VoteApp() {
                 <span>End time</span>
                 <input type="datetime-local" value={endTime} onChange={(event) => setEndTime(event.target.value)} />
               </label>
+              <label className="field">
+                <span>Allowlist root (optional)</span>
+                <input
+                  type="text"
+                  value={eligibilityRoot}
+                  onChange={(event) => setEligibilityRoot(event.target.value.trim())}
+                  placeholder="Merkle root from task:build-allowlist"
+                />
+              </label>
+              <label className="field">
+                <span>Weight token (optional)</span>
+                <input
+                  type="text"
+                  value={weightToken}
+                  onChange={(event) => setWeightToken(event.target.value.trim())}
+                  placeholder="Confidential token address for balance-weighted votes"
+                />
+              </label>
+              <label className="field">
+                <span>Membership NFT (optional)</span>
+                <input
+                  type="text"
+                  value={membershipToken}
+                  onChange={(event) => setMembershipToken(event.target.value.trim())}
+                  placeholder="ERC-721 address - each token casts one vote"
+                />
+              </label>
+              <label className="field">
+                <span>Quorum (optional)</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={quorum}
+                  onChange={(event) => setQuorum(event.target.value)}
+                  placeholder="Minimum votes cast for a decision"
+                />
+              </label>
+              <label className="field">
+                <span>Pass threshold % (optional)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={99.99}
+                  step={0.01}
+                  value={threshold}
+                  onChange={(event) => setThreshold(event.target.value)}
+                  placeholder="e.g. 50 for a majority, empty for plurality"
+                />
+              </label>
+              <label className="field">
+                <span>Minimum turnout (optional)</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={minParticipants}
+                  onChange={(event) => setMinParticipants(event.target.value)}
+                  placeholder="Fewest voters before results can be revealed"
+                />
+              </label>
+              <label className="field toggle-field">
+                <input
+                  type="checkbox"
+                  checked={revealWinnerOnly}
+                  onChange={(event) => setRevealWinnerOnly(event.target.checked)}
+                />
+                <span>Reveal only the winner, never the counts (not for ranked polls or surveys)</span>
+              </label>
+              <label className="field toggle-field">
+                <input
+                  type="checkbox"
+                  checked={creatorCanPeek}
+                  onChange={(event) => setCreatorCanPeek(event.target.checked)}
+                />
+                <span>Let me see interim results while voting (shown to voters)</span>
+              </label>
             </div>
             <button className="primary" type="button" onClick={handleCreatePoll} disabled={pendingAction === 'create'}>
               {pendingAction === 'create' ? 'Creating...' : 'Create poll'}
@@ -644,7 +2286,7 @@ export function VoteApp() {
             {polls.length === 0 ? (
               <div className="empty-state">
                 <h4>No polls found</h4>
-                <p>Create the first poll or confirm the contract address.</p>
+                <p>Create the first poll or confirm the contract and lens addresses.</p>
               </div>
             ) : (
               <div className="poll-grid">
@@ -654,12 +2296,42 @@ export function VoteApp() {
                   const endMs = Number(poll.endTime) * 1000;
                   const decrypted = decryptedResults[poll.id];
                   const published = poll.publishedResults;
+                  const eligibility = getEligibility(poll);
+                  const indexed = indexedPolls[poll.id];
+                  const voterList = voterLists[poll.id];
+                  // Membership polls count one ballot per NFT, so votes cannot be delegated.
+                  const delegable = poll.membershipToken === ZERO_ADDRESS;
+                  const interim = !published && !decrypted ? interimResults[poll.id] : undefined;
+                  const revealed = published ?? decrypted?.tallies;
+                  const winnerOnly =
+                    poll.revealWinnerOnly && revealed ? { winner: revealed[0], tie: revealed[1] !== 0 } : undefined;
+                  const tallyCount = tallyCountFor(poll.kind, poll.options.length, poll.questions.length);
+                  const resultTallies = winnerOnly ? undefined : revealed?.slice(0, tallyCount) ?? interim;
+                  const cohortTallies =
+                    revealed && !winnerOnly
+                      ? poll.cohorts.map((_, cohort) =>
+                          revealed.slice(tallyCount * (cohort + 1), tallyCount * (cohort + 2)),
+                        )
+                      : [];
+                  const scoreBallots =
+                    poll.kind === POLL_KIND_SCORE && resultTallies
+                      ? resultTallies[poll.options.length] ?? 0
+                      : undefined;
+                  const runoff =
+                    poll.kind === POLL_KIND_RANKED && resultTallies
+                      ? instantRunoff(resultTallies.slice(0, -COUNTER_TALLIES), poll.options.length)
+                      : undefined;
+                  const survey = poll.kind === POLL_KIND_SURVEY ? surveyQuestions(poll) : undefined;
+                  const [abstained, invalidBallots] = resultTallies?.slice(-COUNTER_TALLIES) ?? [];
                   const timeLabel =
                     phase === 'upcoming'
                       ? `Starts in ${formatCountdown(startMs, now)}`
                       : phase === 'active'
                         ? `Ends in ${formatCountdown(endMs, now)}`
                         : `Ended ${formatCountdown(now, endMs)} ago`;
+                  const isCreator = !!address && poll.creator.toLowerCase() === address.toLowerCase();
+                  const draft = pollDrafts[poll.id];
+                  const verification = verifications[poll.id];
 
                   return (
                     <article
@@ -671,12 +2343,133 @@ export function VoteApp() {
                         <div>
                           <h4>{poll.title}</h4>
                           <p className="poll-meta">Created by {poll.creator}</p>
+                          {poll.kind === POLL_KIND_APPROVAL && (
+                            <p className="poll-meta">Approval ballot - select every option you support</p>
+                          )}
+                          {poll.kind === POLL_KIND_RANKED && (
+                            <p className="poll-meta">Ranked ballot - order the options from most to least preferred</p>
+                          )}
+                          {poll.kind === POLL_KIND_SCORE && (
+                            <p className="poll-meta">Score ballot - rate every option from 0 to {MAX_SCORE}</p>
+                          )}
+                          {survey && (
+                            <p className="poll-meta">
+                              Survey - {survey.length} question(s), all answered in one encrypted ballot
+                            </p>
+                          )}
+                          {poll.weightToken !== ZERO_ADDRESS && (
+                            <p className="poll-meta">Weighted by token balance at creation ({poll.weightToken})</p>
+                          )}
+                          {poll.membershipToken !== ZERO_ADDRESS && (
+                            <p className="poll-meta">Members holding {poll.membershipToken} - one vote per NFT</p>
+                          )}
+                          {poll.actions.length > 0 && (
+                            <p className="poll-meta">
+                              Proposal - {poll.actions.filter((action) => action.target !== ZERO_ADDRESS).length}{' '}
+                              option(s) run an on-chain action{' '}
+                              {formatCountdown(Number(poll.executionDelay) * 1000, 0)} after passing
+                            </p>
+                          )}
+                          {poll.revealWinnerOnly && (
+                            <p className="poll-meta">Winner only - the counts are never published</p>
+                          )}
+                          {poll.cohorts.length > 0 && (
+                            <p className="poll-meta">
+                              Results broken down by cohort: {poll.cohorts.join(', ')}
+                              {poll.userCohort !== undefined &&
+                                ` - your ballot counts in ${poll.cohorts[poll.userCohort]}`}
+                            </p>
+                          )}
+                          {poll.minParticipants > 0 && (
+                            <p className="poll-meta">
+                              Results revealed only if at least {poll.minParticipants} addresses vote (
+                              {poll.voterCount} so far)
+                            </p>
+                          )}
+                          {(poll.quorum > 0 || poll.thresholdBps > 0) && (
+                            <p className="poll-meta">
+                              {poll.quorum > 0 ? `Quorum ${poll.quorum} votes` : 'No quorum'} -{' '}
+                              {poll.thresholdBps > 0
+                                ? `passes above ${poll.thresholdBps / 100}% ${
+                                    poll.kind === POLL_KIND_SCORE ? 'of the top score' : 'of the votes cast'
+                                  }`
+                                : 'plurality wins'}
+                            </p>
+                          )}
                         </div>
                         <div className={`status-chip status-${phase}`}>
                           <span>{statusLabels[phase]}</span>
                         </div>
                       </div>
                       <p className="poll-status-text">{statusDescriptions[phase]}</p>
+                      {poll.creatorCanPeek && (
+                        <p className="peek-warning">
+                          Interim results visible to the creator - they can decrypt the running tallies before the
+                          poll ends.
+                        </p>
+                      )}
+                      {poll.outcome !== 0 && (
+                        <p className={`outcome-badge outcome-${poll.outcome === OUTCOME_PASSED ? 'passed' : 'other'}`}>
+                          {poll.outcome === OUTCOME_PASSED
+                            ? `Winner: ${poll.options[poll.winningOption]}`
+                            : poll.outcome === OUTCOME_REJECTED
+                              ? `Rejected - ${poll.options[poll.winningOption]} led below the threshold`
+                              : poll.outcome === OUTCOME_FAILED_QUORUM
+                                ? 'Quorum not reached'
+                                : poll.outcome === OUTCOME_TIE
+                                  ? 'Tie - no winner'
+                                  : poll.outcome === OUTCOME_INSUFFICIENT_TURNOUT
+                                    ? `Insufficient turnout - ${poll.voterCount} of ${poll.minParticipants} voters`
+                                    : 'Outcome unknown'}
+                        </p>
+                      )}
+                      {verification && (
+                        <p
+                          className={`outcome-badge ${verification.valid ? 'verified-badge' : 'unverified-badge'}`}
+                          title={
+                            verification.valid
+                              ? `KMS signers: ${verification.signers.join(', ')}`
+                              : verification.problems.join('; ')
+                          }
+                        >
+                          {verification.valid ? 'Verified ✓' : 'Results signature check failed'}
+                        </p>
+                      )}
+                      {eligibility.status !== 'open' && (
+                        <p className={`eligibility eligibility-${eligibility.status}`}>
+                          {eligibility.status === 'eligible'
+                            ? 'Members only - your allowlist proof is attached.'
+                            : eligibility.status === 'ineligible'
+                              ? 'You are not eligible'
+                              : 'Members only - load the allowlist to vote.'}
+                        </p>
+                      )}
+                      {address &&
+                        poll.membershipToken !== ZERO_ADDRESS &&
+                        phase === 'active' &&
+                        (poll.memberTokens.length > 0 ? (
+                          <label className="field token-field">
+                            <span>{poll.userVoted ? 'Voted with membership token' : 'Vote with membership token'}</span>
+                            <select
+                              value={getMemberToken(poll)?.toString()}
+                              onChange={(event) =>
+                                setTokenSelections((prev) => ({ ...prev, [poll.id]: event.target.value }))
+                              }
+                            >
+                              {poll.memberTokens.map((tokenId) => (
+                                <option key={tokenId.toString()} value={tokenId.toString()}>
+                                  #{tokenId.toString()}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                        ) : (
+                          <p className="eligibility eligibility-ineligible">
+                            {poll.userVoted
+                              ? 'The membership token you voted with has left this wallet.'
+                              : 'This wallet holds no unused membership token for this poll.'}
+                          </p>
+                        ))}
                       <div className="timeline">
                         <div>
                           <span className="meta-label">Starts</span>
@@ -691,47 +2484,217 @@ export function VoteApp() {
                           <span className="meta-value">{timeLabel}</span>
                         </div>
                       </div>
+                      {indexed && (
+                        <div className="indexed-activity">
+                          <p className="poll-meta">
+                            {indexed.voterCount} voter(s), {indexed.ballotCount} ballot(s) including changes
+                            {indexed.lastVoteAt !== undefined &&
+                              ` - last vote ${formatTimestamp(BigInt(indexed.lastVoteAt))}`}
+                          </p>
+                          {indexed.voterCount > 0 && (
+                            <button
+                              className="ghost"
+                              type="button"
+                              onClick={() => toggleVoters(poll.id)}
+                              disabled={pendingAction === `voters-${poll.id}`}
+                            >
+                              {voterList ? 'Hide voters' : 'Show voters'}
+                            </button>
+                          )}
+                          {voterList && (
+                            <ul className="voter-list">
+                              {voterList.map((entry) => (
+                                <li key={entry.voter}>
+                                  <span>{entry.voter}</span>
+                                  <span>
+                                    {formatTimestamp(BigInt(entry.lastVotedAt))}
+                                    {entry.ballots > 1 && ` (${entry.ballots} ballots)`}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      )}
 
-                      <div className="options">
-                        {poll.options.map((option, optionIndex) => (
-                          <label
-                            key={`poll-${poll.id}-option-${optionIndex}`}
-                            className={`option ${voteSelections[poll.id] === optionIndex ? 'selected' : ''}`}
-                          >
-                            <input
-                              type="radio"
-                              name={`poll-${poll.id}`}
-                              value={optionIndex}
-                              checked={voteSelections[poll.id] === optionIndex}
-                              onChange={() =>
-                                setVoteSelections((prev) => ({
-                                  ...prev,
-                                  [poll.id]: optionIndex,
-                                }))
-                              }
-                              disabled={phase !== 'active' || poll.userVoted}
-                            />
-                            <span>{option}</span>
-                          </label>
-                        ))}
-                      </div>
+                      {survey ? (
+                        <div className="survey">
+                          {survey.map((question, questionIndex) => (
+                            <fieldset key={`poll-${poll.id}-question-${questionIndex}`} className="survey-question">
+                              <legend>{question.text}</legend>
+                              <div className="options">
+                                {[...question.options, 'Abstain'].map((option, position) => {
+                                  const abstain = position === question.options.length;
+                                  const answer = abstain ? ABSTAIN : position;
+                                  const checked = surveyAnswers[poll.id]?.[questionIndex] === answer;
+                                  return (
+                                    <label
+                                      key={`poll-${poll.id}-question-${questionIndex}-${position}`}
+                                      className={`option ${abstain ? 'abstain' : ''} ${checked ? 'selected' : ''}`}
+                                    >
+                                      <input
+                                        type="radio"
+                                        name={`poll-${poll.id}-question-${questionIndex}`}
+                                        checked={checked}
+                                        onChange={() => setAnswer(poll, questionIndex, answer)}
+                                        disabled={phase !== 'active'}
+                                      />
+                                      <span>{option}</span>
+                                    </label>
+                                  );
+                                })}
+                              </div>
+                            </fieldset>
+                          ))}
+                        </div>
+                      ) : poll.kind === POLL_KIND_SCORE ? (
+                        <div className="options">
+                          {poll.options.map((option, optionIndex) => (
+                            <label key={`poll-${poll.id}-score-${optionIndex}`} className="option">
+                              <span>{option}</span>
+                              <input
+                                className="score-input"
+                                type="number"
+                                min={0}
+                                max={MAX_SCORE}
+                                value={getScores(poll)[optionIndex]}
+                                onChange={(event) => setScore(poll, optionIndex, Number(event.target.value))}
+                                disabled={phase !== 'active'}
+                              />
+                            </label>
+                          ))}
+                        </div>
+                      ) : poll.kind === POLL_KIND_RANKED ? (
+                        <ol className="options ranking">
+                          {getRanking(poll).map((optionIndex, position) => (
+                            <li key={`poll-${poll.id}-rank-${optionIndex}`} className="option">
+                              <span className="rank">{position + 1}</span>
+                              <span>{poll.options[optionIndex]}</span>
+                              <div className="rank-controls">
+                                <button
+                                  className="ghost"
+                                  type="button"
+                                  onClick={() => moveRanked(poll, position, -1)}
+                                  disabled={phase !== 'active' || position === 0}
+                                  aria-label={`Move ${poll.options[optionIndex]} up`}
+                                >
+                                  ↑
+                                </button>
+                                <button
+                                  className="ghost"
+                                  type="button"
+                                  onClick={() => moveRanked(poll, position, 1)}
+                                  disabled={phase !== 'active' || position === poll.options.length - 1}
+                                  aria-label={`Move ${poll.options[optionIndex]} down`}
+                                >
+                                  ↓
+                                </button>
+                              </div>
+                            </li>
+                          ))}
+                        </ol>
+                      ) : (
+                        <div className="options">
+                          {poll.options.map((option, optionIndex) => {
+                            const approval = poll.kind === POLL_KIND_APPROVAL;
+                            const selection = voteSelections[poll.id];
+                            const checked = approval
+                              ? ((selection ?? 0) & (1 << optionIndex)) !== 0
+                              : selection === optionIndex;
+                            return (
+                              <label
+                                key={`poll-${poll.id}-option-${optionIndex}`}
+                                className={`option ${checked ? 'selected' : ''}`}
+                              >
+                                <input
+                                  type={approval ? 'checkbox' : 'radio'}
+                                  name={`poll-${poll.id}`}
+                                  value={optionIndex}
+                                  checked={checked}
+                                  onChange={() =>
+                                    setVoteSelections((prev) => ({
+                                      ...prev,
+                                      [poll.id]: approval ? (prev[poll.id] ?? 0) ^ (1 << optionIndex) : optionIndex,
+                                    }))
+                                  }
+                                  disabled={phase !== 'active'}
+                                />
+                                <span>{option}</span>
+                              </label>
+                            );
+                          })}
+                        </div>
+                      )}
+                      {poll.kind !== POLL_KIND_SCORE && !survey && (
+                        <label className={`option abstain ${abstentions[poll.id] ? 'selected' : ''}`}>
+                          <input
+                            type="checkbox"
+                            checked={!!abstentions[poll.id]}
+                            onChange={(event) =>
+                              setAbstentions((prev) => ({ ...prev, [poll.id]: event.target.checked }))
+                            }
+                            disabled={phase !== 'active'}
+                          />
+                          <span>Abstain - count my ballot without choosing</span>
+                        </label>
+                      )}
 
                       <div className="poll-actions">
                         {phase === 'active' && (
                           <button
                             className="primary"
                             type="button"
-                            onClick={() => handleVote(poll.id)}
-                            disabled={pendingAction === `vote-${poll.id}` || poll.userVoted}
+                            onClick={() => handleVote(poll)}
+                            disabled={pendingAction === `vote-${poll.id}` || !eligibility.proof}
                           >
-                            {poll.userVoted
-                              ? 'Vote recorded'
-                              : pendingAction === `vote-${poll.id}`
-                                ? 'Encrypting...'
+                            {pendingAction === `vote-${poll.id}`
+                              ? 'Encrypting...'
+                              : poll.userVoted
+                                ? 'Change vote'
                                 : 'Encrypt & vote'}
                           </button>
                         )}
 
+                        {phase === 'active' &&
+                          poll.kind !== POLL_KIND_SCORE &&
+                          !survey &&
+                          poll.membershipToken === ZERO_ADDRESS && (
+                            <button
+                              className="ghost"
+                              type="button"
+                              onClick={() => handleSignVote(poll)}
+                              disabled={pendingAction === `sign-${poll.id}` || !eligibility.proof}
+                            >
+                              {pendingAction === `sign-${poll.id}` ? 'Signing...' : 'Sign only'}
+                            </button>
+                          )}
+
+                        {poll.userVoted && (
+                          <button
+                            className="ghost"
+                            type="button"
+                            onClick={() => handleVerifyVote(poll)}
+                            disabled={pendingAction === `receipt-${poll.id}`}
+                          >
+                            {pendingAction === `receipt-${poll.id}` ? 'Decrypting...' : 'Verify my vote'}
+                          </button>
+                        )}
+
+                        {isCreator && poll.creatorCanPeek && (phase === 'active' || phase === 'ended') && (
+                          <button
+                            className="ghost"
+                            type="button"
+                            onClick={() => handlePeek(poll)}
+                            disabled={pendingAction === `peek-${poll.id}`}
+                          >
+                            {pendingAction === `peek-${poll.id}`
+                              ? 'Decrypting...'
+                              : interim
+                                ? 'Refresh interim results'
+                                : 'Peek at results'}
+                          </button>
+                        )}
+
                         {phase === 'ended' && (
                           <button
                             className="primary"
@@ -765,28 +2728,365 @@ export function VoteApp() {
                                   ? 'Publishing...'
                                   : 'Publish on-chain'}
                             </button>
+                            {poll.resultsPublished && (
+                              <button
+                                className="ghost"
+                                type="button"
+                                onClick={() => handleDownloadResults(poll)}
+                                disabled={pendingAction === `download-${poll.id}`}
+                              >
+                                {pendingAction === `download-${poll.id}` ? 'Preparing...' : 'Download results'}
+                              </button>
+                            )}
+                            {poll.executableAt > 0n && (
+                              <button
+                                className="primary"
+                                type="button"
+                                onClick={() => handleExecute(poll)}
+                                disabled={
+                                  poll.executed ||
+                                  Number(poll.executableAt) * 1000 > now ||
+                                  pendingAction === `execute-${poll.id}`
+                                }
+                              >
+                                {poll.executed
+                                  ? 'Executed'
+                                  : pendingAction === `execute-${poll.id}`
+                                    ? 'Executing...'
+                                    : Number(poll.executableAt) * 1000 > now
+                                      ? `Executable in ${formatCountdown(Number(poll.executableAt) * 1000, now)}`
+                                      : 'Execute proposal'}
+                              </button>
+                            )}
                           </div>
                         )}
                       </div>
+                      {receipts[poll.id] && (
+                        <p className="result-note receipt">Your recorded ballot: {receipts[poll.id]}</p>
+                      )}
+
+                      {address && delegable && (phase === 'upcoming' || phase === 'active') && (
+                        <div className="delegation">
+                          <span className="meta-label">Delegation</span>
+                          <p className="result-note">
+                            {poll.userVoted
+                              ? poll.weightToken !== ZERO_ADDRESS
+                                ? `Your ballot carries your token weight and ${poll.delegations} delegator(s)` +
+                                  (carriedWeights[poll.id] !== undefined
+                                    ? `: ${carriedWeights[poll.id]} in total.`
+                                    : '.')
+                                : `Your ballot carries ${poll.delegations + 1} vote(s), ${poll.delegations} delegated.`
+                              : poll.representative !== ZERO_ADDRESS
+                                ? `Your vote is counted with the ballot of ${poll.representative}.`
+                                : poll.delegatee !== ZERO_ADDRESS && poll.delegatee !== address
+                                  ? `Delegated to ${poll.delegatee}. It counts once they vote and count delegators.`
+                                  : 'Not delegated in this poll.'}
+                          </p>
+                          {poll.userVoted ? (
+                            <div className="option-row">
+                              {phase === 'active' && (
+                                <button
+                                  className="ghost"
+                                  type="button"
+                                  onClick={() => handleCountDelegators(poll)}
+                                  disabled={pendingAction === `count-${poll.id}`}
+                                >
+                                  {pendingAction === `count-${poll.id}` ? 'Counting...' : 'Count my delegators'}
+                                </button>
+                              )}
+                              {poll.weightToken !== ZERO_ADDRESS && (
+                                <button
+                                  className="ghost"
+                                  type="button"
+                                  onClick={() => handleRevealWeight(poll)}
+                                  disabled={pendingAction === `weight-${poll.id}`}
+                                >
+                                  {pendingAction === `weight-${poll.id}` ? 'Decrypting...' : 'Reveal my weight'}
+                                </button>
+                              )}
+                            </div>
+                          ) : (
+                            <div className="option-row">
+                              <input
+                                type="text"
+                                value={pollDelegateInputs[poll.id] ?? ''}
+                                onChange={(event) =>
+                                  setPollDelegateInputs((prev) => ({ ...prev, [poll.id]: event.target.value }))
+                                }
+                                placeholder="Delegate for this poll"
+                              />
+                              <button
+                                className="ghost"
+                                type="button"
+                                onClick={() => handlePollDelegate(poll)}
+                                disabled={pendingAction === `delegate-${poll.id}`}
+                              >
+                                Delegate
+                              </button>
+                              <button
+                                className="ghost"
+                                type="button"
+                                onClick={() => handlePollUndelegate(poll)}
+                                disabled={pendingAction === `delegate-${poll.id}`}
+                              >
+                                Use global
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {isCreator && (phase === 'upcoming' || phase === 'active' || phase === 'ended') && (
+                        <div className="creator-tools">
+                          <span className="meta-label">Creator tools</span>
+                          {phase === 'upcoming' &&
+                            (draft ? (
+                              <div className="field-group">
+                                <input
+                                  type="text"
+                                  value={draft.title}
+                                  onChange={(event) =>
+                                    updateDraft(poll.id, (current) => ({ ...current, title: event.target.value }))
+                                  }
+                                  placeholder="Poll title"
+                                />
+                                {draft.options.map((option, optionIndex) => (
+                                  <div className="option-row" key={`poll-${poll.id}-draft-${optionIndex}`}>
+                                    <input
+                                      type="text"
+                                      value={option}
+                                      onChange={(event) =>
+                                        updateDraft(poll.id, (current) => ({
+                                          ...current,
+                                          options: current.options.map((value, idx) =>
+                                            idx === optionIndex ? event.target.value : value,
+                                          ),
+                                        }))
+                                      }
+                                      placeholder={`Option ${optionIndex + 1}`}
+                                    />
+                                    {draft.options.length > 2 && !survey && (
+                                      <button
+                                        className="ghost"
+                                        type="button"
+                                        onClick={() =>
+                                          updateDraft(poll.id, (current) => ({
+                                            ...current,
+                                            options: current.options.filter((_, idx) => idx !== optionIndex),
+                                          }))
+                                        }
+                                      >
+                                        Remove
+                                      </button>
+                                    )}
+                                  </div>
+                                ))}
+                                <div className="result-actions">
+                                  <button
+                                    className="ghost"
+                                    type="button"
+                                    onClick={() =>
+                                      updateDraft(poll.id, (current) => ({
+                                        ...current,
+                                        options: [...current.options, ''],
+                                      }))
+                                    }
+                                    disabled={!!survey || draft.options.length >= maxOptionsFor(poll.kind)}
+                                  >
+                                    Add option
+                                  </button>
+                                  <button className="ghost" type="button" onClick={() => stopEditing(poll.id)}>
+                                    Discard
+                                  </button>
+                                  <button
+                                    className="primary"
+                                    type="button"
+                                    onClick={() => handleEditPoll(poll)}
+                                    disabled={pendingAction === `edit-${poll.id}`}
+                                  >
+                                    {pendingAction === `edit-${poll.id}` ? 'Saving...' : 'Save changes'}
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                              <button className="ghost" type="button" onClick={() => startEditing(poll)}>
+                                Edit title and options
+                              </button>
+                            ))}
+                          {phase !== 'ended' && (
+                            <div className="option-row">
+                              <input
+                                type="datetime-local"
+                                value={extensions[poll.id] ?? toDateTimeInput(poll.endTime)}
+                                onChange={(event) =>
+                                  setExtensions((prev) => ({ ...prev, [poll.id]: event.target.value }))
+                                }
+                              />
+                              <button
+                                className="ghost"
+                                type="button"
+                                onClick={() => handleExtendPoll(poll)}
+                                disabled={pendingAction === `extend-${poll.id}`}
+                              >
+                                {pendingAction === `extend-${poll.id}` ? 'Extending...' : 'Extend end time'}
+                              </button>
+                            </div>
+                          )}
+                          <button
+                            className="ghost"
+                            type="button"
+                            onClick={() => handleCancelPoll(poll)}
+                            disabled={pendingAction === `cancel-${poll.id}`}
+                          >
+                            {pendingAction === `cancel-${poll.id}` ? 'Cancelling...' : 'Cancel poll'}
+                          </button>
+                        </div>
+                      )}
+
+                      {winnerOnly && (
+                        <div className="results">
+                          <h5>Result</h5>
+                          <p className="winner-only">
+                            {winnerOnly.tie
+                              ? 'Tie - no single option leads'
+                              : `Winner: ${poll.options[winnerOnly.winner]}`}
+                          </p>
+                          <p className="result-note">Only the winner is decrypted. The counts stay encrypted.</p>
+                          {published && poll.publishedProof && (
+                            <p className="proof">Proof: {poll.publishedProof}</p>
+                          )}
+                        </div>
+                      )}
 
-                      {(decrypted || published) && (
+                      {resultTallies && (
                         <div className="results">
-                          <h5>Results</h5>
-                          <div className="result-grid">
-                            {poll.options.map((option, optionIndex) => {
-                              const value = published
-                                ? published[optionIndex] ?? 0
-                                : decrypted
-                                  ? decrypted.tallies[optionIndex] ?? 0
-                                  : 0;
+                          <h5>{interim ? 'Interim results (visible to you as the creator)' : 'Results'}</h5>
+                          {survey ? (
+                            survey.map((question, questionIndex) => {
+                              const counters = question.firstTally + question.options.length;
                               return (
-                                <div key={`poll-${poll.id}-result-${optionIndex}`} className="result-item">
-                                  <span className="result-label">{option}</span>
-                                  <span className="result-value">{value}</span>
+                                <div key={`poll-${poll.id}-result-question-${questionIndex}`} className="survey-result">
+                                  <h6>{question.text}</h6>
+                                  <div className="result-grid">
+                                    {question.options.map((option, position) => (
+                                      <div
+                                        key={`poll-${poll.id}-result-${question.firstOption + position}`}
+                                        className="result-item"
+                                      >
+                                        <span className="result-label">{option}</span>
+                                        <span className="result-value">
+                                          {resultTallies[question.firstTally + position] ?? 0}
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                  <p className="result-note">
+                                    Abstained: {resultTallies[counters] ?? 0} · Invalid answers:{' '}
+                                    {resultTallies[counters + 1] ?? 0}
+                                  </p>
                                 </div>
                               );
-                            })}
-                          </div>
+                            })
+                          ) : (
+                            <>
+                              <div className="result-grid">
+                                {poll.options.map((option, optionIndex) => {
+                                  const tally = resultTallies?.[optionIndex] ?? 0;
+                                  let value: number | string = tally;
+                                  if (runoff) {
+                                    value = runoff.rounds[0]?.counts[optionIndex] ?? 0;
+                                  } else if (scoreBallots !== undefined) {
+                                    value = scoreBallots > 0 ? `${(tally / scoreBallots).toFixed(2)} avg` : '-';
+                                  }
+                                  return (
+                                    <div key={`poll-${poll.id}-result-${optionIndex}`} className="result-item">
+                                      <span className="result-label">{option}</span>
+                                      <span className="result-value">{value}</span>
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                              {scoreBallots !== undefined && (
+                                <p className="result-note">
+                                  {poll.weightToken !== ZERO_ADDRESS ? 'Total ballot weight' : 'Ballots'}:{' '}
+                                  {scoreBallots}
+                                </p>
+                              )}
+                              <p className="result-note">
+                                Abstained: {abstained ?? 0} · Invalid ballots: {invalidBallots ?? 0}
+                              </p>
+                            </>
+                          )}
+                          {cohortTallies.length > 0 && (
+                            <div className="cohort-breakdown">
+                              <table className="cohort-table">
+                                <caption>
+                                  By cohort
+                                  {poll.kind === POLL_KIND_RANKED
+                                    ? ' (first preferences)'
+                                    : poll.kind === POLL_KIND_SCORE
+                                      ? ' (average scores)'
+                                      : survey
+                                        ? ' (abstentions and invalid answers summed over the questions)'
+                                        : ''}
+                                </caption>
+                                <thead>
+                                  <tr>
+                                    <th scope="col">Cohort</th>
+                                    {poll.options.map((option, optionIndex) => (
+                                      <th key={`poll-${poll.id}-cohort-head-${optionIndex}`} scope="col">
+                                        {option}
+                                      </th>
+                                    ))}
+                                    <th scope="col">Abstained</th>
+                                    <th scope="col">Invalid</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {cohortTallies.map((tallies, cohort) => (
+                                    <tr key={`poll-${poll.id}-cohort-${cohort}`}>
+                                      <th scope="row">{poll.cohorts[cohort]}</th>
+                                      {poll.cohortVoters[cohort] < poll.minParticipants ? (
+                                        <td colSpan={poll.options.length + 2}>
+                                          Withheld: {poll.cohortVoters[cohort]} of {poll.minParticipants} voters
+                                        </td>
+                                      ) : (
+                                        <>
+                                          {cohortRow(poll, tallies).map((value, optionIndex) => (
+                                            <td key={`poll-${poll.id}-cohort-${cohort}-${optionIndex}`}>{value}</td>
+                                          ))}
+                                          {counterTotals(poll, tallies).map((value, counter) => (
+                                            <td key={`poll-${poll.id}-cohort-${cohort}-counter-${counter}`}>{value}</td>
+                                          ))}
+                                        </>
+                                      )}
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+                          {runoff && (
+                            <ol className="runoff">
+                              {runoff.rounds.map((round, roundIndex) => (
+                                <li key={`poll-${poll.id}-round-${roundIndex}`}>
+                                  {round.counts
+                                    .flatMap((count, optionIndex) =>
+                                      count === null ? [] : [`${poll.options[optionIndex]} ${count}`],
+                                    )
+                                    .join(', ')}
+                                  {round.eliminated !== undefined && ` - ${poll.options[round.eliminated]} eliminated`}
+                                </li>
+                              ))}
+                              <li className="runoff-winner">
+                                {runoff.rounds.length === 0
+                                  ? 'No ballots cast'
+                                  : runoff.winner === undefined
+                                    ? 'Instant runoff ends in a tie'
+                                    : `Instant-runoff winner: ${poll.options[runoff.winner]}`}
+                              </li>
+                            </ol>
+                          )}
                           {published && poll.publishedProof && (
                             <p className="proof">Proof: {poll.publishedProof}</p>
                           )}
@@ -797,6 +3097,13 @@ export function VoteApp() {
                 })}
               </div>
             )}
+            {polls.length < pollTotal && (
+              <div className="load-more">
+                <button className="ghost" type="button" onClick={loadMorePolls} disabled={loadingMore || loading}>
+                  {loadingMore ? 'Loading...' : `Load more (${pollTotal - polls.length} older)`}
+                </button>
+              </div>
+            )}
           </div>
         </section>
       </main>
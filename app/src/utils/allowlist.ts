@@ -0,0 +1,50 @@
+import { StandardMerkleTree } from '@openzeppelin/merkle-tree';
+
+export type Allowlist = StandardMerkleTree<[string]>;
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+function collectAddresses(values: unknown[]) {
+  const addresses = new Set<string>();
+  for (const value of values) {
+    const candidate = String(Array.isArray(value) ? value[0] : value).trim();
+    if (ADDRESS_PATTERN.test(candidate)) {
+      addresses.add(candidate.toLowerCase());
+    }
+  }
+  return [...addresses];
+}
+
+/**
+ * Accepts either a tree dump written by `task:build-allowlist` or a plain address list
+ * (JSON array or CSV with the address in the first column) and returns the eligibility tree.
+ */
+export function parseAllowlist(text: string): Allowlist {
+  let addresses: string[];
+  try {
+    const data = JSON.parse(text);
+    if (data && typeof data === 'object' && 'format' in data) {
+      return StandardMerkleTree.load(data);
+    }
+    addresses = collectAddresses(Array.isArray(data) ? data : []);
+  } catch {
+    addresses = collectAddresses(text.split(/\r?\n/).map((line) => line.split(',')[0]));
+  }
+
+  if (addresses.length === 0) {
+    throw new Error('No addresses found in the allowlist');
+  }
+  return StandardMerkleTree.of(
+    addresses.map((address) => [address]),
+    ['address'],
+  );
+}
+
+export function getAllowlistProof(tree: Allowlist, voter: string): `0x${string}`[] | undefined {
+  for (const [index, [address]] of tree.entries()) {
+    if (address.toLowerCase() === voter.toLowerCase()) {
+      return tree.getProof(index) as `0x${string}`[];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,52 @@
+/**
+ * Results bundles in the app. The bundle format and the signature check behind the "Verified" badge are those of
+ * `shared/resultsBundle.ts`, which `task:export-results` and `task:verify-results` use as well.
+ */
+import type { ResultsBundle } from '../../../shared/resultsBundle';
+
+export { KMS_VERIFIER_ADDRESS, RESULTS_FORMAT, verifyResultsBundle } from '../../../shared/resultsBundle';
+export type { BundleVerification, KmsConfig, ResultsBundle, SignedResults } from '../../../shared/resultsBundle';
+
+// Getters of the KMSVerifier that `readKmsConfig` uses in the tasks.
+export const KMS_VERIFIER_ABI = [
+  {
+    type: 'function',
+    name: 'getKmsSigners',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address[]' }],
+  },
+  {
+    type: 'function',
+    name: 'getThreshold',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'eip712Domain',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'fields', type: 'bytes1' },
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+      { name: 'salt', type: 'bytes32' },
+      { name: 'extensions', type: 'uint256[]' },
+    ],
+  },
+] as const;
+
+/** Saves the bundle as `poll-<id>-results.json`, the name `task:export-results` uses. */
+export function downloadResultsBundle(bundle: ResultsBundle) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `poll-${bundle.poll.id}-results.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // ../shared holds modules the Hardhat tasks use too, such as the results bundle check. Their imports resolve to the
+  // packages of the app.
+  resolve: { dedupe: ['ethers'] },
+  server: { fs: { allow: ['.', '../shared'] } },
 })
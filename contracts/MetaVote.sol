@@ -1,12 +1,83 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.27;
 
-import {FHE, ebool, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint32, euint64, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+import {IERC721} from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import {IConfidentialSnapshotToken} from "./interfaces/IConfidentialSnapshotToken.sol";
+import {BallotSignature} from "./libraries/BallotSignature.sol";
+import {PollActions} from "./libraries/PollActions.sol";
+import {ProposalExecutor} from "./ProposalExecutor.sol";
+import {PollTally} from "./libraries/PollTally.sol";
 
 /// @title MetaVote - FHE powered poll system
 /// @notice Allows anyone to create polls, cast encrypted votes, finalize, and verify decrypted results on-chain.
-contract MetaVote is ZamaEthereumConfig {
+contract MetaVote is ZamaEthereumConfig, EIP712, Nonces {
+    /// @notice Ballot format of a poll.
+    /// @dev SingleChoice ballots encrypt one option index, Approval ballots encrypt a bitmask of approved options.
+    ///      Ranked ballots encrypt the index of a complete ranking among the n! orderings of the options (its Lehmer
+    ///      code, most preferred option first), and the poll keeps one tally per ordering. The published histogram is
+    ///      enough to replay instant-runoff rounds or pairwise Condorcet contests off-chain. Score ballots encrypt one
+    ///      score per option (see `castScores`); the tallies hold the per-option sums. Approval and score polls follow
+    ///      their option tallies with the ballot count (total weight in weighted polls). Every poll ends its tallies
+    ///      with the abstain counter, then the invalid-ballot counter. Survey ballots answer several single-choice
+    ///      questions at once (see `createSurvey` and `castAnswers`); each question keeps its option tallies followed
+    ///      by its own abstain and invalid counters, one question after the other.
+    enum PollKind {
+        SingleChoice,
+        Approval,
+        Ranked,
+        Score,
+        Survey
+    }
+
+    /// @notice Decision recorded when the results are published.
+    /// @dev Passed: the leading option cleared the threshold. FailedQuorum: fewer votes were cast than the quorum.
+    ///      Rejected: the leading option stayed at or below the threshold. Tie: several options share the lead.
+    ///      InsufficientTurnout: fewer voters than `minParticipants` took part, recorded by `finalizePoll`, and the
+    ///      tallies are never revealed.
+    enum PollOutcome {
+        Pending,
+        Passed,
+        FailedQuorum,
+        Rejected,
+        Tie,
+        InsufficientTurnout
+    }
+
+    /// @notice Optional poll rules chosen at creation.
+    /// @param kind Ballot format.
+    /// @param eligibilityRoot Merkle root of the eligible voter addresses, or zero for an open poll.
+    /// @param weightToken Confidential token whose snapshot balance weights each ballot, or zero for one vote each.
+    /// @param quorum Minimum votes cast (total weight in weighted polls) for the poll to decide anything.
+    /// @param thresholdBps Share of the votes cast, in basis points, that the leading option must exceed. For score
+    ///        polls it applies to the leading average as a share of `MAX_SCORE`. Zero means a plurality wins.
+    ///        Abstentions and invalid ballots count towards neither the quorum nor the threshold.
+    /// @param creatorCanPeek Lets the creator decrypt the running tallies while the poll is open. Voters see the flag
+    ///        in `getPollSummary`.
+    /// @param minParticipants Fewest voters the poll needs before its tallies can be revealed, so that small polls do
+    ///        not expose individual ballots. Zero disables the guard. Not available with `creatorCanPeek`, since the
+    ///        creator could decrypt the running tallies while only one or two voters have voted.
+    /// @param revealWinnerOnly Reveal only the leading option and whether it is tied, never the tallies. Not available
+    ///        for ranked polls or with a quorum or threshold, which need the counts, nor with `creatorCanPeek`, which
+    ///        would let the creator decrypt them.
+    /// @param membershipToken ERC-721 whose holders may vote, one ballot per token (see `castVoteWithToken`), or zero.
+    ///        Delegations are not counted in these polls, since a delegator's token could vote again after a transfer.
+    struct PollSettings {
+        PollKind kind;
+        bytes32 eligibilityRoot;
+        address weightToken;
+        uint32 quorum;
+        uint16 thresholdBps;
+        bool creatorCanPeek;
+        uint32 minParticipants;
+        bool revealWinnerOnly;
+        address membershipToken;
+    }
+
     struct Poll {
         string title;
         string[] options;
@@ -18,126 +89,678 @@ contract MetaVote is ZamaEthereumConfig {
         bool resultsPublished;
         uint32[] publicResults;
         bytes publicDecryptionProof;
+        PollSettings settings;
+        uint256 snapshotTime;
+        PollOutcome outcome;
+        uint256 winningOption;
+        bool cancelled;
+        uint32 voterCount;
+        euint32 winner;
+        ebool tie;
+        string[] cohorts;
+        euint32[] cohortTallies;
+        uint32[] cohortVoters;
+        string[] questions;
+        uint8[] questionSizes;
+    }
+
+    /// @dev Latest encrypted ballot of a voter, kept so that a re-vote can be swapped out of the tallies and so that
+    ///      the voter can decrypt it as a receipt. `values` holds the choice as cast, or one clamped score per option
+    ///      for score polls. `weight` is the voter's own weight plus the weight of the `delegations` counted with the
+    ///      ballot. Delegators who have not voted only hold their own weight here, ready to lend.
+    struct Ballot {
+        euint32[] values;
+        euint32 weight;
+        uint32 delegations;
+    }
+
+    /// @notice Call an option of a proposal poll runs if it wins. A zero target means the option runs nothing.
+    struct Action {
+        address target;
+        bytes data;
+    }
+
+    /// @dev Actions of a proposal poll, one per option. `executableAt` is set when the results are published with a
+    ///      passed outcome and the winning option has an action, and stays zero otherwise.
+    struct Proposal {
+        Action[] actions;
+        uint256 executionDelay;
+        uint256 executableAt;
+        bool executed;
     }
 
+    /// @notice Highest score a voter can give an option in a score poll. Higher scores are clamped to it.
+    uint32 public constant MAX_SCORE = PollTally.MAX_SCORE;
+
+    /// @notice Largest number of options a poll can have. Ranked polls stop at `MAX_RANKED_OPTIONS`.
+    uint256 public constant MAX_OPTIONS = PollTally.MAX_OPTIONS;
+
+    /// @notice Largest number of options in a ranked poll, which keeps one tally per ordering (4! = 24).
+    uint256 public constant MAX_RANKED_OPTIONS = PollTally.MAX_RANKED_OPTIONS;
+
+    /// @notice Largest number of questions in a survey. Their options together stay within `MAX_OPTIONS`.
+    uint256 public constant MAX_QUESTIONS = PollTally.MAX_QUESTIONS;
+
+    /// @notice Choice to encrypt in `castVote` to abstain. It is counted in the abstain tally instead of an option.
+    uint32 public constant ABSTAIN = PollTally.ABSTAIN;
+
+    /// @notice Longest delegation chain followed to find the voter who carries a delegator's weight.
+    uint256 public constant MAX_DELEGATION_DEPTH = 8;
+
+    /// @notice Largest number of cohorts a poll can split its tallies into.
+    uint256 public constant MAX_COHORTS = PollTally.MAX_COHORTS;
+
+    /// @notice Shortest timelock between the publication of a passed proposal and the execution of its action.
+    uint256 public constant MIN_EXECUTION_DELAY = PollActions.MIN_EXECUTION_DELAY;
+
+    /// @notice EIP-712 type of a ballot signed for `castVoteBySig`.
+    bytes32 public constant VOTE_TYPEHASH = BallotSignature.VOTE_TYPEHASH;
+
+    /// @notice Caller of proposal actions, which holds none of the FHE ACL permissions of MetaVote.
+    ProposalExecutor public immutable PROPOSAL_EXECUTOR;
+
     Poll[] private polls;
     mapping(uint256 => mapping(address => bool)) private votes;
+    mapping(uint256 => mapping(address => Ballot)) private ballots;
+    mapping(address => address) private delegates;
+    mapping(uint256 => mapping(address => address)) private pollDelegates;
+    /// @dev Voter whose ballot currently carries a delegator's weight in a poll.
+    mapping(uint256 => mapping(address => address)) private representatives;
+    /// @dev Cohort index plus one of each account the creator assigned, zero for none.
+    mapping(uint256 => mapping(address => uint8)) private cohortOf;
+    /// @dev Address that voted with each membership token in a poll.
+    mapping(uint256 => mapping(uint256 => address)) private tokenVoters;
+    mapping(uint256 => Proposal) private proposals;
 
+    /// @notice A poll or survey was created.
+    /// @param pollId Id of the new poll.
+    /// @param title Poll title.
+    /// @param startTime Voting start timestamp.
+    /// @param endTime Voting end timestamp.
     event PollCreated(uint256 indexed pollId, string title, uint256 startTime, uint256 endTime);
+
+    /// @notice The weights of a token-weighted poll are read from the balances at `snapshotTime`.
+    /// @param pollId Target poll id.
+    /// @param token Weight token.
+    /// @param snapshotTime Timestamp of the balances read.
+    event WeightSnapshotTaken(uint256 indexed pollId, address indexed token, uint256 snapshotTime);
+
+    /// @notice A voter cast their first ballot in a poll.
+    /// @param pollId Target poll id.
+    /// @param voter Account credited with the ballot.
     event VoteSubmitted(uint256 indexed pollId, address indexed voter);
+
+    /// @notice A voter replaced their ballot in a poll.
+    /// @param pollId Target poll id.
+    /// @param voter Account credited with the ballot.
+    event VoteChanged(uint256 indexed pollId, address indexed voter);
+
+    /// @notice A poll was finalized after its voting window.
+    /// @param pollId Target poll id.
     event PollFinalized(uint256 indexed pollId);
+
+    /// @notice The decrypted results of a poll were verified and stored.
+    /// @param pollId Target poll id.
+    /// @param results Decrypted values in the order of `getDecryptionHandles`.
     event ResultsPublished(uint256 indexed pollId, uint32[] results);
 
+    /// @notice The outcome of a poll was recorded with its results, or at finalization for low turnout.
+    /// @param pollId Target poll id.
+    /// @param outcome Recorded outcome.
+    /// @param winningOption Winning option, zero unless the poll passed.
+    event PollOutcomeRecorded(uint256 indexed pollId, PollOutcome outcome, uint256 winningOption);
+
+    /// @notice The creator changed the title and options of a poll before it started.
+    /// @param pollId Target poll id.
+    /// @param title New title.
+    event PollEdited(uint256 indexed pollId, string title);
+
+    /// @notice The creator moved the end of a poll later.
+    /// @param pollId Target poll id.
+    /// @param endTime New end timestamp.
+    event PollExtended(uint256 indexed pollId, uint256 endTime);
+
+    /// @notice The creator cancelled a poll.
+    /// @param pollId Target poll id.
+    event PollCancelled(uint256 indexed pollId);
+
+    /// @notice An account changed its global delegate.
+    /// @param delegator Delegating account.
+    /// @param delegatee New delegate, zero for none.
+    event DelegateChanged(address indexed delegator, address indexed delegatee);
+
+    /// @notice An account changed its delegate for one poll.
+    /// @param pollId Target poll id.
+    /// @param delegator Delegating account.
+    /// @param delegatee New delegate, zero for none.
+    event PollDelegateChanged(uint256 indexed pollId, address indexed delegator, address indexed delegatee);
+
+    /// @notice The weight of a delegator now counts with the ballot of `representative`.
+    /// @param pollId Target poll id.
+    /// @param delegator Delegating account.
+    /// @param representative Voter carrying the weight, zero for none.
+    event DelegationCounted(uint256 indexed pollId, address indexed delegator, address indexed representative);
+
+    /// @notice The creator split the tallies of a poll by cohort.
+    /// @param pollId Target poll id.
+    /// @param labels Cohort labels.
+    event CohortsDefined(uint256 indexed pollId, string[] labels);
+
+    /// @notice The creator placed a voter in a cohort.
+    /// @param pollId Target poll id.
+    /// @param voter Assigned account.
+    /// @param cohort Cohort index.
+    event CohortAssigned(uint256 indexed pollId, address indexed voter, uint256 cohort);
+
+    /// @notice The creator attached actions to a poll, making it a proposal.
+    /// @param pollId Target poll id.
+    /// @param executionDelay Timelock between publication and execution, in seconds.
+    event ProposalActionsSet(uint256 indexed pollId, uint256 executionDelay);
+
+    /// @notice A passed proposal was queued for execution.
+    /// @param pollId Target poll id.
+    /// @param option Winning option whose action runs.
+    /// @param executableAt Earliest execution timestamp.
+    event ProposalQueued(uint256 indexed pollId, uint256 option, uint256 executableAt);
+
+    /// @notice The action of a proposal ran.
+    /// @param pollId Target poll id.
+    /// @param option Winning option whose action ran.
+    /// @param target Contract called.
+    event ProposalExecuted(uint256 indexed pollId, uint256 option, address target);
+
     error InvalidPoll();
     error InvalidWindow();
     error InvalidOptions();
     error PollNotActive();
     error PollAlreadyFinalized();
     error PollNotFinished();
-    error AlreadyVoted();
     error MismatchedResults();
     error ResultsAlreadyPublished();
+    error NotEligible();
+    error InvalidWeightToken();
+    error InvalidBallot();
+    error InvalidThreshold();
+    error NotPollCreator();
+    error PollAlreadyStarted();
+    error PollAlreadyCancelled();
+    error InvalidDelegate();
+    error ExpiredSignature();
+    error InvalidSignature();
+    error InsufficientTurnout();
+    error InvalidMode();
+    error InvalidCohort();
+    error AlreadyVoted();
+    error InvalidMembershipToken();
+    error NotTokenHolder();
+    error TokenAlreadyUsed();
+    error InvalidAction();
+    error ProposalNotExecutable();
+    error ProposalAlreadyExecuted();
+
+    /// @notice Deploy MetaVote with its own `ProposalExecutor`.
+    constructor() EIP712("MetaVote", "1") {
+        PROPOSAL_EXECUTOR = new ProposalExecutor();
+    }
 
     modifier pollExists(uint256 pollId) {
-        if (pollId >= polls.length) {
-            revert InvalidPoll();
-        }
+        _checkPollExists(pollId);
         _;
     }
 
-    /// @notice Create a new poll with 2-4 options and a voting window.
+    modifier onlyPollCreator(uint256 pollId) {
+        _checkPollCreator(pollId);
+        _;
+    }
+
+    /// @notice Create a new poll with 2-16 options (2-4 for ranked polls) and a voting window.
     /// @param title The poll title.
-    /// @param options The option labels (between 2 and 4).
+    /// @param options The option labels (between 2 and `MAX_OPTIONS`).
     /// @param startTime Start timestamp for voting.
     /// @param endTime End timestamp for voting.
+    /// @param settings Optional eligibility and weighting rules. Surveys are created with `createSurvey`.
     /// @return pollId Identifier of the created poll.
     function createPoll(
-        string memory title,
-        string[] memory options,
+        string calldata title,
+        string[] calldata options,
         uint256 startTime,
-        uint256 endTime
+        uint256 endTime,
+        PollSettings calldata settings
     ) external returns (uint256 pollId) {
-        if (options.length < 2 || options.length > 4) {
-            revert InvalidOptions();
+        if (settings.kind == PollKind.Survey) {
+            revert InvalidMode();
         }
-        if (startTime >= endTime || endTime <= block.timestamp) {
-            revert InvalidWindow();
+        pollId = _createPoll(title, startTime, endTime, settings);
+        PollTally.setOptions(polls[pollId], options);
+    }
+
+    /// @notice Create a survey: a poll of several single-choice questions that voters answer together with one
+    ///         encrypted input (see `castAnswers`).
+    /// @dev Surveys decide nothing, so they cannot reveal only a winner or use a quorum or threshold, and their
+    ///      outcome stays Pending after publication.
+    /// @param title The survey title.
+    /// @param questions The question texts (between 1 and `MAX_QUESTIONS`).
+    /// @param optionCounts Number of options of each question, at least 2.
+    /// @param options The option labels of every question in turn, `MAX_OPTIONS` at most in total.
+    /// @param startTime Start timestamp for voting.
+    /// @param endTime End timestamp for voting.
+    /// @param settings Optional rules, with `kind` set to Survey.
+    /// @return pollId Identifier of the created poll.
+    function createSurvey(
+        string calldata title,
+        string[] calldata questions,
+        uint8[] calldata optionCounts,
+        string[] calldata options,
+        uint256 startTime,
+        uint256 endTime,
+        PollSettings calldata settings
+    ) external returns (uint256 pollId) {
+        if (
+            settings.kind != PollKind.Survey ||
+            settings.revealWinnerOnly ||
+            settings.quorum != 0 ||
+            settings.thresholdBps != 0
+        ) {
+            revert InvalidMode();
         }
+        pollId = _createPoll(title, startTime, endTime, settings);
+        PollTally.setQuestions(polls[pollId], questions, optionCounts);
+        PollTally.setOptions(polls[pollId], options);
+    }
 
-        pollId = polls.length;
-        polls.push();
+    /// @notice Fix the title or options of a poll before voting starts. Creator only. Clears the actions of a
+    ///         proposal poll, which must be set again for the new options. Surveys keep their questions, so an edit
+    ///         can only relabel their options.
+    /// @param pollId Target poll id.
+    /// @param title The new poll title.
+    /// @param options The new option labels (between 2 and `MAX_OPTIONS`).
+    function editPoll(
+        uint256 pollId,
+        string calldata title,
+        string[] calldata options
+    ) external pollExists(pollId) onlyPollCreator(pollId) {
         Poll storage poll = polls[pollId];
+        if (poll.cancelled) {
+            revert PollAlreadyCancelled();
+        }
+        if (block.timestamp >= poll.startTime) {
+            revert PollAlreadyStarted();
+        }
 
         poll.title = title;
-        poll.startTime = startTime;
+        delete proposals[pollId].actions;
+        PollTally.setOptions(poll, options);
+
+        emit PollEdited(pollId, title);
+    }
+
+    /// @notice Push back the end of a poll that has not ended yet. Creator only.
+    /// @param pollId Target poll id.
+    /// @param endTime The new end timestamp, later than the current one.
+    function extendPoll(uint256 pollId, uint256 endTime) external pollExists(pollId) onlyPollCreator(pollId) {
+        Poll storage poll = polls[pollId];
+        if (poll.cancelled) {
+            revert PollAlreadyCancelled();
+        }
+        if (block.timestamp >= poll.endTime) {
+            revert PollNotActive();
+        }
+        if (endTime <= poll.endTime) {
+            revert InvalidWindow();
+        }
+
         poll.endTime = endTime;
-        poll.creator = msg.sender;
 
-        for (uint256 i = 0; i < options.length; i++) {
-            poll.options.push(options[i]);
-            poll.tallies.push(FHE.asEuint32(0));
-            FHE.allowThis(poll.tallies[i]);
+        emit PollExtended(pollId, endTime);
+    }
+
+    /// @notice Cancel a poll that has not been finalized. Its ballots are never decrypted. Creator only.
+    /// @param pollId Target poll id.
+    function cancelPoll(uint256 pollId) external pollExists(pollId) onlyPollCreator(pollId) {
+        Poll storage poll = polls[pollId];
+        _requireUnsettled(poll);
+
+        poll.cancelled = true;
+
+        emit PollCancelled(pollId);
+    }
+
+    /// @notice Make a poll a proposal: attach the call each option runs if it wins, and the timelock between the
+    ///         publication of a passed outcome and its execution. Creator only, before voting starts, so that voters
+    ///         know what they vote on. Calling it again replaces the actions.
+    /// @param pollId Target poll id.
+    /// @param actions One action per option: a contract to call and its calldata, or a zero target for no action.
+    /// @param executionDelay Seconds between publication and execution, at least `MIN_EXECUTION_DELAY`.
+    function setActions(
+        uint256 pollId,
+        Action[] calldata actions,
+        uint256 executionDelay
+    ) external pollExists(pollId) onlyPollCreator(pollId) {
+        Poll storage poll = polls[pollId];
+        if (poll.cancelled) {
+            revert PollAlreadyCancelled();
+        }
+        if (block.timestamp >= poll.startTime) {
+            revert PollAlreadyStarted();
         }
 
-        emit PollCreated(pollId, title, startTime, endTime);
+        PollActions.set(proposals[pollId], actions, executionDelay, poll.options.length);
+
+        emit ProposalActionsSet(pollId, executionDelay);
+    }
+
+    /// @notice Split the tallies of a poll by cohort, before the first ballot is cast. Creator only, once per poll.
+    /// @dev Every cohort keeps its own copy of the poll tallies. Ballots of the voters assigned to a cohort (see
+    ///      `assignCohorts`) update both copies, and the cohort tallies are revealed and published together with the
+    ///      poll tallies. `minParticipants` also applies to each cohort: the tallies of a cohort with fewer voters are
+    ///      revealed as zeros, so that a small cohort does not expose its ballots. Not available in winner-only polls,
+    ///      which reveal no counts.
+    /// @param pollId Target poll id.
+    /// @param labels Cohort labels (between 1 and `MAX_COHORTS`).
+    function defineCohorts(
+        uint256 pollId,
+        string[] calldata labels
+    ) external pollExists(pollId) onlyPollCreator(pollId) {
+        Poll storage poll = polls[pollId];
+        _requireUnsettled(poll);
+        PollTally.setCohorts(poll, labels);
+
+        emit CohortsDefined(pollId, labels);
+    }
+
+    /// @notice Place voters in the cohorts of a poll, for instance from the list the allowlist was built from or from
+    ///         off-chain attestations. Creator only. A voter's cohort is fixed once they vote, so that their ballot is
+    ///         always replaced in the cohort it was counted in.
+    /// @dev Delegated weight counts in the cohort of the ballot that carries it.
+    /// @param pollId Target poll id.
+    /// @param voters Accounts to place.
+    /// @param cohorts Cohort index of each account, in the order of the labels given to `defineCohorts`.
+    function assignCohorts(
+        uint256 pollId,
+        address[] calldata voters,
+        uint8[] calldata cohorts
+    ) external pollExists(pollId) onlyPollCreator(pollId) {
+        Poll storage poll = polls[pollId];
+        _requireUnsettled(poll);
+        if (voters.length != cohorts.length) {
+            revert InvalidCohort();
+        }
+
+        for (uint256 i = 0; i < voters.length; i++) {
+            if (cohorts[i] >= poll.cohorts.length) {
+                revert InvalidCohort();
+            }
+            if (votes[pollId][voters[i]]) {
+                revert AlreadyVoted();
+            }
+            cohortOf[pollId][voters[i]] = cohorts[i] + 1;
+            emit CohortAssigned(pollId, voters[i], cohorts[i]);
+        }
     }
 
-    /// @notice Cast an encrypted vote for a poll option.
+    /// @notice Cast an encrypted vote. Weighted polls count the voter's snapshot token balance.
+    /// @dev Voting again before the poll ends replaces the previous ballot. The tallies are rewritten the same way
+    ///      whether or not the choice changed, so the chain does not reveal it. `ABSTAIN` goes to the abstain tally,
+    ///      and any other choice outside the ballot format goes to the invalid tally.
     /// @param pollId Target poll id.
-    /// @param encryptedChoice Encrypted option index (0-based).
+    /// @param encryptedChoice Encrypted option index (0-based), bitmask of approved options for approval polls,
+    ///        ranking index for ranked polls, or `ABSTAIN`.
     /// @param inputProof Input proof from the relayer encryption.
+    /// @param eligibilityProof Merkle proof of the sender in the poll allowlist (empty for open polls).
     function castVote(
         uint256 pollId,
         externalEuint32 encryptedChoice,
-        bytes calldata inputProof
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
     ) external pollExists(pollId) {
-        Poll storage poll = polls[pollId];
+        _useMembershipToken(pollId, msg.sender, false, 0);
+        _castBallot(pollId, msg.sender, _choice(pollId, encryptedChoice, inputProof), eligibilityProof);
+    }
 
-        if (block.timestamp < poll.startTime || block.timestamp >= poll.endTime) {
-            revert PollNotActive();
+    /// @notice Cast an encrypted vote in a poll bound to a membership token, as the current owner of `tokenId`.
+    /// @dev Each token votes once per poll: after a transfer, the new owner cannot vote with it again. Re-votes work as
+    ///      in `castVote` but must use the token the voter first voted with, which they must still own.
+    /// @param pollId Target poll id.
+    /// @param tokenId Membership token owned by the sender.
+    /// @param encryptedChoice Encrypted choice, as in `castVote`.
+    /// @param inputProof Input proof from the relayer encryption.
+    /// @param eligibilityProof Merkle proof of the sender in the poll allowlist (empty for open polls).
+    function castVoteWithToken(
+        uint256 pollId,
+        uint256 tokenId,
+        externalEuint32 encryptedChoice,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external pollExists(pollId) {
+        _useMembershipToken(pollId, msg.sender, true, tokenId);
+        _castBallot(pollId, msg.sender, _choice(pollId, encryptedChoice, inputProof), eligibilityProof);
+    }
+
+    /// @notice Submit a ballot signed off-chain, so that the voter does not pay gas. The vote is credited to the
+    ///         signer, not the submitter, and works like `castVote` otherwise. Score polls and polls bound to a
+    ///         membership token are not supported.
+    /// @dev The signature is an EIP-712 `Vote` over the poll id, the encrypted handle, the keccak256 of the input
+    ///      proof, the voter's current `nonces` value and the deadline. The input proof is checked against the
+    ///      submitter, so the voter encrypts the choice for the relayer's address, not their own.
+    /// @param pollId Target poll id.
+    /// @param voter Signer of the ballot, credited with the vote.
+    /// @param encryptedChoice Encrypted choice, as in `castVote`.
+    /// @param inputProof Input proof of an encryption made for the submitter's address.
+    /// @param eligibilityProof Merkle proof of the voter in the poll allowlist (empty for open polls).
+    /// @param deadline Last timestamp at which the signature can be used.
+    /// @param signature Voter's EIP-712 signature.
+    function castVoteBySig(
+        uint256 pollId,
+        address voter,
+        externalEuint32 encryptedChoice,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof,
+        uint256 deadline,
+        bytes calldata signature
+    ) external pollExists(pollId) {
+        if (block.timestamp > deadline) {
+            revert ExpiredSignature();
         }
-        if (poll.finalized) {
-            revert PollAlreadyFinalized();
+        {
+            bytes32 structHash = keccak256(
+                abi.encode(
+                    VOTE_TYPEHASH,
+                    pollId,
+                    externalEuint32.unwrap(encryptedChoice),
+                    keccak256(inputProof),
+                    _useNonce(voter),
+                    deadline
+                )
+            );
+            BallotSignature.verify(_hashTypedDataV4(structHash), voter, signature);
+        }
+        _useMembershipToken(pollId, voter, false, 0);
+        _castBallot(pollId, voter, _choice(pollId, encryptedChoice, inputProof), eligibilityProof);
+    }
+
+    /// @notice Cast an encrypted score for every option of a score poll. Scores above `MAX_SCORE` are clamped.
+    /// @dev Re-voting works as in `castVote`. Clamped score ballots are always valid, so score polls leave the abstain
+    ///      and invalid tallies at zero.
+    /// @param pollId Target poll id.
+    /// @param encryptedScores One encrypted score per option, all from the same encrypted input.
+    /// @param inputProof Input proof from the relayer encryption.
+    /// @param eligibilityProof Merkle proof of the sender in the poll allowlist (empty for open polls).
+    function castScores(
+        uint256 pollId,
+        externalEuint32[] calldata encryptedScores,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external pollExists(pollId) {
+        _useMembershipToken(pollId, msg.sender, false, 0);
+        _castBallot(pollId, msg.sender, _values(pollId, PollKind.Score, encryptedScores, inputProof), eligibilityProof);
+    }
+
+    /// @notice Cast encrypted scores in a score poll bound to a membership token, as the current owner of `tokenId`.
+    /// @dev Token rules as in `castVoteWithToken`, scores as in `castScores`.
+    /// @param pollId Target poll id.
+    /// @param tokenId Membership token owned by the sender.
+    /// @param encryptedScores One encrypted score per option, all from the same encrypted input.
+    /// @param inputProof Input proof from the relayer encryption.
+    /// @param eligibilityProof Merkle proof of the sender in the poll allowlist (empty for open polls).
+    function castScoresWithToken(
+        uint256 pollId,
+        uint256 tokenId,
+        externalEuint32[] calldata encryptedScores,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external pollExists(pollId) {
+        _useMembershipToken(pollId, msg.sender, true, tokenId);
+        _castBallot(pollId, msg.sender, _values(pollId, PollKind.Score, encryptedScores, inputProof), eligibilityProof);
+    }
+
+    /// @notice Answer every question of a survey with one encrypted input. Each answer is an option index within its
+    ///         question (0-based), or `ABSTAIN`.
+    /// @dev Re-voting works as in `castVote`. An answer outside its question's options counts in that question's
+    ///      invalid tally.
+    /// @param pollId Target poll id.
+    /// @param encryptedAnswers One encrypted answer per question, all from the same encrypted input.
+    /// @param inputProof Input proof from the relayer encryption.
+    /// @param eligibilityProof Merkle proof of the sender in the poll allowlist (empty for open polls).
+    function castAnswers(
+        uint256 pollId,
+        externalEuint32[] calldata encryptedAnswers,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external pollExists(pollId) {
+        _useMembershipToken(pollId, msg.sender, false, 0);
+        _castBallot(
+            pollId,
+            msg.sender,
+            _values(pollId, PollKind.Survey, encryptedAnswers, inputProof),
+            eligibilityProof
+        );
+    }
+
+    /// @notice Answer a survey bound to a membership token, as the current owner of `tokenId`.
+    /// @dev Token rules as in `castVoteWithToken`, answers as in `castAnswers`.
+    /// @param pollId Target poll id.
+    /// @param tokenId Membership token owned by the sender.
+    /// @param encryptedAnswers One encrypted answer per question, all from the same encrypted input.
+    /// @param inputProof Input proof from the relayer encryption.
+    /// @param eligibilityProof Merkle proof of the sender in the poll allowlist (empty for open polls).
+    function castAnswersWithToken(
+        uint256 pollId,
+        uint256 tokenId,
+        externalEuint32[] calldata encryptedAnswers,
+        bytes calldata inputProof,
+        bytes32[] calldata eligibilityProof
+    ) external pollExists(pollId) {
+        _useMembershipToken(pollId, msg.sender, true, tokenId);
+        _castBallot(
+            pollId,
+            msg.sender,
+            _values(pollId, PollKind.Survey, encryptedAnswers, inputProof),
+            eligibilityProof
+        );
+    }
+
+    /// @notice Delegate your vote in every poll to `delegatee`, unless a poll-specific delegation says otherwise.
+    /// @dev Delegating to yourself clears the delegation. The weight moves once `countDelegations` runs for you in a
+    ///      poll, so changes made during a poll count from the next `countDelegations` call.
+    /// @param delegatee Address that votes on your behalf.
+    function delegate(address delegatee) external {
+        if (delegatee == address(0)) {
+            revert InvalidDelegate();
         }
-        if (votes[pollId][msg.sender]) {
-            revert AlreadyVoted();
+        delegates[msg.sender] = delegatee;
+        emit DelegateChanged(msg.sender, delegatee);
+    }
+
+    /// @notice Clear your global delegation.
+    function undelegate() external {
+        delete delegates[msg.sender];
+        emit DelegateChanged(msg.sender, address(0));
+    }
+
+    /// @notice Delegate your vote in one poll, overriding the global delegation. Delegating to yourself opts the poll
+    ///         out of the global delegation.
+    /// @param pollId Target poll id.
+    /// @param delegatee Address that votes on your behalf in this poll.
+    function delegatePoll(uint256 pollId, address delegatee) external pollExists(pollId) {
+        if (delegatee == address(0)) {
+            revert InvalidDelegate();
         }
-        votes[pollId][msg.sender] = true;
+        pollDelegates[pollId][msg.sender] = delegatee;
+        emit PollDelegateChanged(pollId, msg.sender, delegatee);
+    }
 
-        euint32 choice = FHE.fromExternal(encryptedChoice, inputProof);
+    /// @notice Clear your delegation in one poll, falling back to the global delegation.
+    /// @param pollId Target poll id.
+    function undelegatePoll(uint256 pollId) external pollExists(pollId) {
+        delete pollDelegates[pollId][msg.sender];
+        emit PollDelegateChanged(pollId, msg.sender, address(0));
+    }
 
-        for (uint256 i = 0; i < poll.options.length; i++) {
-            ebool selected = FHE.eq(choice, FHE.asEuint32(uint32(i)));
-            euint32 incremented = FHE.add(poll.tallies[i], FHE.asEuint32(1));
-            poll.tallies[i] = FHE.select(selected, incremented, poll.tallies[i]);
-            FHE.allowThis(poll.tallies[i]);
+    /// @notice Count the weight of delegators who have not voted with the ballot of their representative: the first
+    ///         address along their delegation chain that has voted. Anyone can call it while the poll is open.
+    /// @dev Each delegator is counted with at most one ballot. Calling it again moves the weight when the chain
+    ///      changed (a delegate further down voted, or a delegation was changed) and does nothing otherwise. Chains
+    ///      that loop or run past `MAX_DELEGATION_DEPTH` count for nobody. Moving one delegator costs one ballot
+    ///      update per ballot involved, so large polls should be counted in small batches.
+    /// @param pollId Target poll id.
+    /// @param delegators Addresses to count.
+    /// @param eligibilityProofs Merkle proof of each delegator in the poll allowlist (empty for open polls).
+    function countDelegations(
+        uint256 pollId,
+        address[] calldata delegators,
+        bytes32[][] calldata eligibilityProofs
+    ) external pollExists(pollId) {
+        Poll storage poll = polls[pollId];
+        _requireOpen(poll);
+        if (poll.settings.membershipToken != address(0)) {
+            revert InvalidMode();
+        }
+        bool gated = poll.settings.eligibilityRoot != bytes32(0);
+        if (gated && eligibilityProofs.length != delegators.length) {
+            revert NotEligible();
         }
 
-        emit VoteSubmitted(pollId, msg.sender);
+        for (uint256 i = 0; i < delegators.length; i++) {
+            address delegator = delegators[i];
+            if (votes[pollId][delegator]) {
+                continue;
+            }
+            address representative = _representative(pollId, delegator);
+            if (representative != address(0) && gated && !_isEligible(poll, delegator, eligibilityProofs[i])) {
+                revert NotEligible();
+            }
+            _moveDelegation(pollId, delegator, representative);
+        }
     }
 
-    /// @notice Finalize a poll once the voting window has ended. Marks tallies as publicly decryptable.
+    /// @notice Finalize a poll once the voting window has ended. Marks tallies, cohort tallies included, as publicly
+    ///         decryptable.
+    /// @dev A poll with fewer voters than `minParticipants` closes with the InsufficientTurnout outcome instead, and
+    ///      its tallies are never made decryptable. Winner-only polls compute the leading option and tie flag under
+    ///      encryption and make only those decryptable.
     /// @param pollId Target poll id.
     function finalizePoll(uint256 pollId) external pollExists(pollId) {
         Poll storage poll = polls[pollId];
         if (block.timestamp < poll.endTime) {
             revert PollNotFinished();
         }
-        if (poll.finalized) {
-            revert PollAlreadyFinalized();
-        }
+        _requireUnsettled(poll);
 
         poll.finalized = true;
-        for (uint256 i = 0; i < poll.tallies.length; i++) {
-            poll.tallies[i] = FHE.makePubliclyDecryptable(poll.tallies[i]);
-        }
-
         emit PollFinalized(pollId);
+        if (poll.voterCount < poll.settings.minParticipants) {
+            poll.outcome = PollOutcome.InsufficientTurnout;
+            emit PollOutcomeRecorded(pollId, PollOutcome.InsufficientTurnout, 0);
+            return;
+        }
+        PollTally.reveal(poll);
     }
 
-    /// @notice Publish decrypted tallies on-chain with KMS proof verification.
+    /// @notice Publish decrypted tallies on-chain with KMS proof verification, then record the poll outcome. A passed
+    ///         proposal whose winning option has an action becomes executable after its timelock.
     /// @param pollId Target poll id.
-    /// @param clearTallies Decrypted tallies matching the poll options.
+    /// @param clearTallies Decrypted values in the order of `getDecryptionHandles`: the tallies then the cohort
+    ///        tallies, or the winning option and the tie flag (1 for a tie) in winner-only polls.
     /// @param decryptionProof KMS proof returned by the relayer.
     function publishResults(
         uint256 pollId,
@@ -151,30 +774,56 @@ contract MetaVote is ZamaEthereumConfig {
         if (poll.resultsPublished) {
             revert ResultsAlreadyPublished();
         }
-        if (clearTallies.length != poll.options.length) {
-            revert MismatchedResults();
+        if (poll.outcome == PollOutcome.InsufficientTurnout) {
+            revert InsufficientTurnout();
         }
+        PollTally.publish(poll, clearTallies, decryptionProof);
 
-        bytes32[] memory handles = new bytes32[](poll.tallies.length);
-        for (uint256 i = 0; i < poll.tallies.length; i++) {
-            handles[i] = euint32.unwrap(poll.tallies[i]);
-        }
+        emit ResultsPublished(pollId, clearTallies);
+        emit PollOutcomeRecorded(pollId, poll.outcome, poll.winningOption);
 
-        FHE.checkSignatures(handles, abi.encode(clearTallies), decryptionProof);
+        Proposal storage proposal = proposals[pollId];
+        if (
+            poll.outcome == PollOutcome.Passed &&
+            proposal.actions.length != 0 &&
+            proposal.actions[poll.winningOption].target != address(0)
+        ) {
+            proposal.executableAt = block.timestamp + proposal.executionDelay;
+            emit ProposalQueued(pollId, poll.winningOption, proposal.executableAt);
+        }
+    }
 
-        poll.publicResults = clearTallies;
-        poll.resultsPublished = true;
-        poll.publicDecryptionProof = decryptionProof;
+    /// @notice Run the action of the winning option of a passed proposal, once its timelock has elapsed. Anyone can
+    ///         call it, and it succeeds at most once per poll. The target sees `PROPOSAL_EXECUTOR` as the caller.
+    /// @dev A reverting target reverts the execution, which can then be retried.
+    /// @param pollId Target poll id.
+    /// @return result Data returned by the target.
+    function execute(uint256 pollId) external pollExists(pollId) returns (bytes memory result) {
+        uint256 option = polls[pollId].winningOption;
+        address target;
+        (target, result) = PollActions.execute(proposals[pollId], option, PROPOSAL_EXECUTOR);
 
-        emit ResultsPublished(pollId, clearTallies);
+        emit ProposalExecuted(pollId, option, target);
     }
 
     /// @notice Get total poll count.
+    /// @return count Number of polls created, cancelled ones included.
     function getPollCount() external view returns (uint256) {
         return polls.length;
     }
 
     /// @notice Get poll metadata.
+    /// @dev `creatorCanPeek` is true when the creator can decrypt the running tallies before the poll ends.
+    /// @param pollId Target poll id.
+    /// @return title Poll title.
+    /// @return startTime Voting start timestamp.
+    /// @return endTime Voting end timestamp.
+    /// @return optionCount Number of options.
+    /// @return finalized Whether the poll was finalized.
+    /// @return resultsPublished Whether its results were published.
+    /// @return creator Account that created the poll.
+    /// @return cancelled Whether the creator cancelled the poll.
+    /// @return creatorCanPeek Whether the creator can decrypt the running tallies.
     function getPollSummary(uint256 pollId)
         external
         view
@@ -186,7 +835,9 @@ contract MetaVote is ZamaEthereumConfig {
             uint256 optionCount,
             bool finalized,
             bool resultsPublished,
-            address creator
+            address creator,
+            bool cancelled,
+            bool creatorCanPeek
         )
     {
         Poll storage poll = polls[pollId];
@@ -197,21 +848,42 @@ contract MetaVote is ZamaEthereumConfig {
             poll.options.length,
             poll.finalized,
             poll.resultsPublished,
-            poll.creator
+            poll.creator,
+            poll.cancelled,
+            poll.settings.creatorCanPeek
         );
     }
 
-    /// @notice Get poll options.
+    /// @notice Get poll options. Survey options are listed question by question (see `getQuestions`).
+    /// @param pollId Target poll id.
+    /// @return options Option labels.
     function getPollOptions(uint256 pollId) external view pollExists(pollId) returns (string[] memory) {
         return polls[pollId].options;
     }
 
-    /// @notice Get encrypted tallies handles for a poll.
+    /// @notice Get encrypted tallies handles for a poll (one per option, or one per ordering for ranked polls),
+    ///         followed by the ballot count for approval and score polls, then the abstain and invalid tallies.
+    ///         Surveys repeat this layout for each question: its option tallies, then its abstain and invalid tallies.
+    /// @param pollId Target poll id.
+    /// @return tallies Encrypted tally handles.
     function getEncryptedTallies(uint256 pollId) external view pollExists(pollId) returns (euint32[] memory) {
         return polls[pollId].tallies;
     }
 
-    /// @notice Get published results if available.
+    /// @notice Get the handles finalization makes publicly decryptable, in the order `publishResults` expects: the
+    ///         tallies followed by the cohort tallies, or the encrypted winning option and tie flag in winner-only
+    ///         polls.
+    /// @param pollId Target poll id.
+    /// @return handles Handles to decrypt.
+    function getDecryptionHandles(uint256 pollId) external view pollExists(pollId) returns (bytes32[] memory) {
+        return PollTally.decryptionHandles(polls[pollId]);
+    }
+
+    /// @notice Get published results if available: the tallies followed by the cohort tallies. Winner-only polls
+    ///         publish the winning option and the tie flag.
+    /// @param pollId Target poll id.
+    /// @return results Published values, empty until publication.
+    /// @return proof KMS proof the values were checked against.
     function getPublishedResults(uint256 pollId)
         external
         view
@@ -222,8 +894,456 @@ contract MetaVote is ZamaEthereumConfig {
         return (poll.publicResults, poll.publicDecryptionProof);
     }
 
+    /// @notice Get the questions of a survey and the number of options of each, which split `getPollOptions` and
+    ///         `getEncryptedTallies` by question. Empty for other polls.
+    /// @param pollId Target poll id.
+    /// @return questions Survey questions.
+    /// @return optionCounts Number of options of each question.
+    function getQuestions(
+        uint256 pollId
+    ) external view pollExists(pollId) returns (string[] memory questions, uint8[] memory optionCounts) {
+        Poll storage poll = polls[pollId];
+        return (poll.questions, poll.questionSizes);
+    }
+
+    /// @notice Get the cohort labels of a poll, their encrypted tallies (for each cohort in turn, one handle per poll
+    ///         tally, see `getEncryptedTallies`) and the number of voters in each cohort. Cohorts with fewer voters
+    ///         than `minParticipants` reveal zero tallies.
+    /// @param pollId Target poll id.
+    /// @return labels Cohort labels.
+    /// @return tallies Encrypted cohort tallies.
+    /// @return voterCounts Number of voters in each cohort.
+    function getCohorts(
+        uint256 pollId
+    )
+        external
+        view
+        pollExists(pollId)
+        returns (string[] memory labels, euint32[] memory tallies, uint32[] memory voterCounts)
+    {
+        Poll storage poll = polls[pollId];
+        return (poll.cohorts, poll.cohortTallies, poll.cohortVoters);
+    }
+
+    /// @notice Get the cohort an account's ballots count in. `assigned` is false when it belongs to no cohort.
+    /// @param pollId Target poll id.
+    /// @param account Account to look up.
+    /// @return assigned Whether the account belongs to a cohort.
+    /// @return cohort Cohort index, zero when not assigned.
+    function getCohortOf(
+        uint256 pollId,
+        address account
+    ) external view pollExists(pollId) returns (bool assigned, uint256 cohort) {
+        uint8 stored = cohortOf[pollId][account];
+        return stored == 0 ? (false, 0) : (true, uint256(stored) - 1);
+    }
+
+    /// @notice Get the number of addresses that voted and the minimum the poll needs to reveal its tallies.
+    /// @param pollId Target poll id.
+    /// @return voters Number of addresses that voted.
+    /// @return minParticipants Minimum turnout of the poll.
+    function getTurnout(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (uint256 voters, uint256 minParticipants)
+    {
+        Poll storage poll = polls[pollId];
+        return (poll.voterCount, poll.settings.minParticipants);
+    }
+
+    /// @notice Get the outcome recorded at publication, or at finalization for polls below their minimum turnout.
+    ///         `winningOption` is the leading option when the poll passed or was rejected, and zero otherwise.
+    /// @param pollId Target poll id.
+    /// @return outcome Recorded outcome, pending until recorded.
+    /// @return winningOption Winning option.
+    function getPollOutcome(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (PollOutcome outcome, uint256 winningOption)
+    {
+        Poll storage poll = polls[pollId];
+        return (poll.outcome, poll.winningOption);
+    }
+
+    /// @notice Get the caller's latest encrypted ballot, which only the caller can user-decrypt. It holds the choice
+    ///         as cast (see `castVote`), or one clamped score per option for score polls. Empty if the caller has not
+    ///         voted.
+    /// @param pollId Target poll id.
+    /// @return values Encrypted ballot values of the caller.
+    function getMyBallot(uint256 pollId) external view pollExists(pollId) returns (euint32[] memory) {
+        return ballots[pollId][msg.sender].values;
+    }
+
+    /// @notice Get the global delegate of an account, or zero.
+    /// @param account Delegating account.
+    /// @return delegatee Global delegate of the account.
+    function getDelegate(address account) external view returns (address) {
+        return delegates[account];
+    }
+
+    /// @notice Get how an account takes part in a poll's delegations.
+    /// @param pollId Target poll id.
+    /// @param account Account to look up.
+    /// @return delegatee Delegate for this poll (the poll-specific one, else the global one), or zero.
+    /// @return representative Voter whose ballot currently carries the account's weight, or zero.
+    /// @return delegations Number of delegators counted with the account's own ballot.
+    /// @return weight Encrypted weight the account's ballot carries (its own weight until it is counted elsewhere),
+    ///         decryptable by the account.
+    function getDelegation(
+        uint256 pollId,
+        address account
+    )
+        external
+        view
+        pollExists(pollId)
+        returns (address delegatee, address representative, uint32 delegations, euint32 weight)
+    {
+        Ballot storage ballot = ballots[pollId][account];
+        return (_delegateOf(pollId, account), representatives[pollId][account], ballot.delegations, ballot.weight);
+    }
+
+    /// @notice Get the actions of a proposal poll (empty for other polls) and the state of its execution.
+    /// @param pollId Target poll id.
+    /// @return actions One action per option.
+    /// @return executionDelay Timelock between publication and execution.
+    /// @return executableAt Earliest execution time, or zero until a passed outcome with an action is published.
+    /// @return executed Whether the winning action has run.
+    function getProposal(
+        uint256 pollId
+    )
+        external
+        view
+        pollExists(pollId)
+        returns (Action[] memory actions, uint256 executionDelay, uint256 executableAt, bool executed)
+    {
+        Proposal storage proposal = proposals[pollId];
+        return (proposal.actions, proposal.executionDelay, proposal.executableAt, proposal.executed);
+    }
+
+    /// @notice Get the address that voted with a membership token in a poll, or zero if the token has not voted.
+    /// @param pollId Target poll id.
+    /// @param tokenId Membership token id.
+    /// @return voter Address that voted with the token.
+    function getTokenVoter(uint256 pollId, uint256 tokenId) external view pollExists(pollId) returns (address) {
+        return tokenVoters[pollId][tokenId];
+    }
+
     /// @notice Check if an address has voted in a poll.
+    /// @param pollId Target poll id.
+    /// @param user Account to look up.
+    /// @return voted Whether the account cast a ballot.
     function hasUserVoted(uint256 pollId, address user) external view pollExists(pollId) returns (bool) {
         return votes[pollId][user];
     }
+
+    /// @notice Get the optional rules of a poll.
+    /// @param pollId Target poll id.
+    /// @return settings Settings the poll was created with.
+    function getPollSettings(uint256 pollId) external view pollExists(pollId) returns (PollSettings memory) {
+        return polls[pollId].settings;
+    }
+
+    /// @notice Check whether an address may vote in a poll with the given allowlist proof.
+    /// @param pollId Target poll id.
+    /// @param user Account to check.
+    /// @param eligibilityProof Merkle proof of the account in the allowlist.
+    /// @return eligible Whether the account may vote.
+    function isEligible(
+        uint256 pollId,
+        address user,
+        bytes32[] calldata eligibilityProof
+    ) external view pollExists(pollId) returns (bool) {
+        return _isEligible(polls[pollId], user, eligibilityProof);
+    }
+
+    /// @dev The modifiers call these checks so that their code is not repeated in every function that uses them.
+    function _checkPollExists(uint256 pollId) private view {
+        if (pollId >= polls.length) {
+            revert InvalidPoll();
+        }
+    }
+
+    function _checkPollCreator(uint256 pollId) private view {
+        if (polls[pollId].creator != msg.sender) {
+            revert NotPollCreator();
+        }
+    }
+
+    /// @dev Checks the window and settings shared by polls and surveys, and stores a poll without options.
+    function _createPoll(
+        string calldata title,
+        uint256 startTime,
+        uint256 endTime,
+        PollSettings calldata settings
+    ) private returns (uint256 pollId) {
+        if (startTime >= endTime || endTime <= block.timestamp) {
+            revert InvalidWindow();
+        }
+        if (settings.weightToken != address(0) && settings.weightToken.code.length == 0) {
+            revert InvalidWeightToken();
+        }
+        if (settings.membershipToken != address(0) && settings.membershipToken.code.length == 0) {
+            revert InvalidMembershipToken();
+        }
+        if (settings.thresholdBps >= PollTally.BPS) {
+            revert InvalidThreshold();
+        }
+        if (
+            settings.revealWinnerOnly &&
+            (settings.kind == PollKind.Ranked ||
+                settings.quorum != 0 ||
+                settings.thresholdBps != 0 ||
+                settings.creatorCanPeek)
+        ) {
+            revert InvalidMode();
+        }
+        if (settings.creatorCanPeek && settings.minParticipants != 0) {
+            revert InvalidMode();
+        }
+
+        pollId = polls.length;
+        polls.push();
+        Poll storage poll = polls[pollId];
+
+        poll.title = title;
+        poll.startTime = startTime;
+        poll.endTime = endTime;
+        poll.creator = msg.sender;
+        poll.settings = settings;
+
+        emit PollCreated(pollId, title, startTime, endTime);
+
+        if (settings.weightToken != address(0)) {
+            // Balances moved in the creation block or later cannot change the weights.
+            poll.snapshotTime = block.timestamp - 1;
+            emit WeightSnapshotTaken(pollId, settings.weightToken, poll.snapshotTime);
+        }
+    }
+
+    /// @dev Decodes the single encrypted value of a choice ballot, which score polls and surveys do not take.
+    function _choice(
+        uint256 pollId,
+        externalEuint32 encryptedChoice,
+        bytes calldata inputProof
+    ) private returns (euint32[] memory values) {
+        PollKind kind = polls[pollId].settings.kind;
+        if (kind == PollKind.Score || kind == PollKind.Survey) {
+            revert InvalidBallot();
+        }
+        values = new euint32[](1);
+        values[0] = FHE.fromExternal(encryptedChoice, inputProof);
+    }
+
+    /// @dev Decodes a ballot of several values from one encrypted input: one score per option in score polls,
+    ///      clamped to `MAX_SCORE`, or one answer per question in surveys.
+    function _values(
+        uint256 pollId,
+        PollKind kind,
+        externalEuint32[] calldata encryptedValues,
+        bytes calldata inputProof
+    ) private returns (euint32[] memory values) {
+        Poll storage poll = polls[pollId];
+        uint256 count = kind == PollKind.Score ? poll.options.length : poll.questions.length;
+        if (poll.settings.kind != kind || encryptedValues.length != count) {
+            revert InvalidBallot();
+        }
+        values = new euint32[](count);
+        for (uint256 i = 0; i < count; i++) {
+            values[i] = FHE.fromExternal(encryptedValues[i], inputProof);
+            if (kind == PollKind.Score) {
+                values[i] = FHE.min(values[i], MAX_SCORE);
+            }
+        }
+    }
+
+    /// @dev Polls bound to a membership token only take ballots with a token (`withToken`), from its current owner,
+    ///      and each token is spent on the first address that votes with it. A voter who already voted can only use
+    ///      their own token again. Other polls reject ballots that name a token.
+    function _useMembershipToken(uint256 pollId, address voter, bool withToken, uint256 tokenId) private {
+        address token = polls[pollId].settings.membershipToken;
+        if (token == address(0)) {
+            if (withToken) {
+                revert InvalidMode();
+            }
+            return;
+        }
+        if (!withToken || IERC721(token).ownerOf(tokenId) != voter) {
+            revert NotTokenHolder();
+        }
+        address tokenVoter = tokenVoters[pollId][tokenId];
+        if (tokenVoter != voter && (tokenVoter != address(0) || votes[pollId][voter])) {
+            revert TokenAlreadyUsed();
+        }
+        tokenVoters[pollId][tokenId] = voter;
+    }
+
+    /// @dev Shared by the cast functions once the ballot values are decoded and sanitized.
+    /// @dev A direct vote overrides the voter's delegation: their weight leaves the representative's ballot first.
+    function _castBallot(
+        uint256 pollId,
+        address voter,
+        euint32[] memory values,
+        bytes32[] calldata eligibilityProof
+    ) private {
+        Poll storage poll = polls[pollId];
+        _requireOpen(poll);
+        if (!_isEligible(poll, voter, eligibilityProof)) {
+            revert NotEligible();
+        }
+
+        Ballot storage ballot = ballots[pollId][voter];
+        bool revote = votes[pollId][voter];
+        uint256 cohort = cohortOf[pollId][voter];
+
+        if (revote) {
+            PollTally.applyBallot(poll, ballot.values, ballot.weight, _isUnitWeight(poll, ballot), true, cohort);
+        } else {
+            _moveDelegation(pollId, voter, address(0));
+            votes[pollId][voter] = true;
+            poll.voterCount++;
+            if (cohort != 0) {
+                poll.cohortVoters[cohort - 1]++;
+            }
+            _loadWeight(poll, ballot, voter);
+        }
+        PollTally.applyBallot(poll, values, ballot.weight, _isUnitWeight(poll, ballot), false, cohort);
+
+        ballot.values = values;
+        for (uint256 i = 0; i < values.length; i++) {
+            FHE.allowThis(values[i]);
+            FHE.allow(values[i], voter);
+        }
+
+        if (revote) {
+            emit VoteChanged(pollId, voter);
+        } else {
+            emit VoteSubmitted(pollId, voter);
+        }
+    }
+
+    function _requireOpen(Poll storage poll) private view {
+        if (block.timestamp < poll.startTime || block.timestamp >= poll.endTime) {
+            revert PollNotActive();
+        }
+        _requireUnsettled(poll);
+    }
+
+    /// @dev A poll is never both finalized and cancelled, so the order of these checks does not matter.
+    function _requireUnsettled(Poll storage poll) private view {
+        if (poll.finalized) {
+            revert PollAlreadyFinalized();
+        }
+        if (poll.cancelled) {
+            revert PollAlreadyCancelled();
+        }
+    }
+
+    /// @dev Poll-specific delegations take precedence over global ones. Zero or the account itself means none.
+    function _delegateOf(uint256 pollId, address account) private view returns (address) {
+        address delegatee = pollDelegates[pollId][account];
+        return delegatee == address(0) ? delegates[account] : delegatee;
+    }
+
+    /// @dev First address along the delegation chain of `delegator` that has voted, or zero if there is none.
+    function _representative(uint256 pollId, address delegator) private view returns (address) {
+        address current = delegator;
+        for (uint256 depth = 0; depth < MAX_DELEGATION_DEPTH; depth++) {
+            address next = _delegateOf(pollId, current);
+            if (next == address(0) || next == current || next == delegator) {
+                return address(0);
+            }
+            if (votes[pollId][next]) {
+                return next;
+            }
+            current = next;
+        }
+        return address(0);
+    }
+
+    /// @dev Moves the weight of a delegator who has not voted from the ballot that carries it to the ballot of `to`
+    ///      (zero to count it nowhere). The delegator's own weight is what their `Ballot` holds until they vote.
+    function _moveDelegation(uint256 pollId, address delegator, address to) private {
+        address from = representatives[pollId][delegator];
+        if (from == to) {
+            return;
+        }
+
+        Ballot storage lent = ballots[pollId][delegator];
+        if (from != address(0)) {
+            _carry(pollId, from, lent.weight, true);
+        }
+        if (to != address(0)) {
+            _loadWeight(polls[pollId], lent, delegator);
+            _carry(pollId, to, lent.weight, false);
+        }
+
+        representatives[pollId][delegator] = to;
+        emit DelegationCounted(pollId, delegator, to);
+    }
+
+    /// @dev Adds (or, with `retract`, removes) a delegator's weight on the ballot of `carrier`, in the tallies it
+    ///      selects and in the carrier's cohort.
+    function _carry(uint256 pollId, address carrier, euint32 weight, bool retract) private {
+        Poll storage poll = polls[pollId];
+        Ballot storage ballot = ballots[pollId][carrier];
+        bool unit = poll.settings.weightToken == address(0);
+        PollTally.applyBallot(poll, ballot.values, weight, unit, retract, cohortOf[pollId][carrier]);
+        if (retract) {
+            ballot.weight = FHE.sub(ballot.weight, weight);
+            ballot.delegations--;
+        } else {
+            ballot.weight = FHE.add(ballot.weight, weight);
+            ballot.delegations++;
+        }
+        _allowWeight(ballot.weight, carrier);
+    }
+
+    /// @dev Reads the own weight of `account` the first time it is needed in a poll.
+    function _loadWeight(Poll storage poll, Ballot storage ballot, address account) private {
+        if (!FHE.isInitialized(ballot.weight)) {
+            ballot.weight = _voteWeight(poll, account);
+            _allowWeight(ballot.weight, account);
+        }
+    }
+
+    function _allowWeight(euint32 weight, address account) private {
+        FHE.allowThis(weight);
+        FHE.allow(weight, account);
+    }
+
+    /// @dev Whether a ballot is known to weigh exactly one, which lets the tallies skip selecting the weight.
+    function _isUnitWeight(Poll storage poll, Ballot storage ballot) private view returns (bool) {
+        return poll.settings.weightToken == address(0) && ballot.delegations == 0;
+    }
+
+    /// @dev Leaves follow the OpenZeppelin StandardMerkleTree encoding for a single `address` value.
+    function _isEligible(
+        Poll storage poll,
+        address user,
+        bytes32[] calldata eligibilityProof
+    ) private view returns (bool) {
+        bytes32 root = poll.settings.eligibilityRoot;
+        if (root == bytes32(0)) {
+            return true;
+        }
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(user))));
+        return MerkleProof.verifyCalldata(eligibilityProof, root, leaf);
+    }
+
+    /// @dev Balances above `type(uint32).max` are capped so that weights fit the euint32 tallies. Score polls multiply
+    ///      the weight by scores up to `MAX_SCORE`, so their cap is `MAX_SCORE` times lower.
+    function _voteWeight(Poll storage poll, address voter) private returns (euint32) {
+        address token = poll.settings.weightToken;
+        if (token == address(0)) {
+            return FHE.asEuint32(1);
+        }
+        euint64 balance = IConfidentialSnapshotToken(token).balanceOfAt(voter, poll.snapshotTime);
+        uint64 cap = type(uint32).max;
+        if (poll.settings.kind == PollKind.Score) {
+            cap /= MAX_SCORE;
+        }
+        return FHE.asEuint32(FHE.min(balance, cap));
+    }
 }
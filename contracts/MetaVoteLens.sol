@@ -0,0 +1,134 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {euint32} from "@fhevm/solidity/lib/FHE.sol";
+import {MetaVote} from "./MetaVote.sol";
+
+/// @title MetaVoteLens - batched poll reads for a MetaVote deployment
+/// @notice Read-only companion that assembles whole poll records from the MetaVote getters, so that clients list polls
+///         one page per call instead of calling every getter for every poll. It holds no state besides its MetaVote.
+contract MetaVoteLens {
+    /// @notice A poll as its MetaVote getters describe it, with the standing of one voter in it.
+    /// @dev `optionCount` and `creatorCanPeek` of `getPollSummary` are `options.length` and `settings.creatorCanPeek`.
+    ///      `questions` and `questionSizes` are empty for polls that are not surveys. `outcome` and `winningOption`
+    ///      read as pending until the poll records them, and `results` and `proof` stay empty until publication.
+    struct PollRecord {
+        uint256 id;
+        string title;
+        string[] options;
+        uint256 startTime;
+        uint256 endTime;
+        address creator;
+        bool finalized;
+        bool resultsPublished;
+        bool cancelled;
+        MetaVote.PollSettings settings;
+        uint256 voterCount;
+        string[] questions;
+        uint8[] questionSizes;
+        string[] cohorts;
+        uint32[] cohortVoters;
+        MetaVote.PollOutcome outcome;
+        uint256 winningOption;
+        uint32[] results;
+        bytes proof;
+        ProposalRecord proposal;
+        VoterRecord voter;
+    }
+
+    /// @notice Actions of a proposal poll and the state of their execution, as returned by `MetaVote.getProposal`.
+    struct ProposalRecord {
+        MetaVote.Action[] actions;
+        uint256 executionDelay;
+        uint256 executableAt;
+        bool executed;
+    }
+
+    /// @notice How a voter takes part in a poll, from `MetaVote.hasUserVoted`, `getDelegation` and `getCohortOf`.
+    ///         All fields are zero for the zero address.
+    struct VoterRecord {
+        bool voted;
+        address delegatee;
+        address representative;
+        uint32 delegations;
+        euint32 weight;
+        bool inCohort;
+        uint256 cohort;
+    }
+
+    /// @notice The MetaVote whose polls this lens reads.
+    MetaVote public immutable META_VOTE;
+
+    /// @notice Deploy a lens over `metaVote`.
+    /// @param metaVote MetaVote deployment to read.
+    constructor(MetaVote metaVote) {
+        META_VOTE = metaVote;
+    }
+
+    /// @notice Get up to `limit` polls in id order, starting at poll `offset`, with the standing of `voter` in each.
+    /// @dev Returns fewer records at the end of the list and none past it. Pass the zero address as `voter` when no
+    ///      account is connected.
+    /// @param offset Id of the first poll to read.
+    /// @param limit Largest number of polls to read.
+    /// @param voter Account whose standing each record describes.
+    /// @return records Poll records in id order.
+    function getPolls(
+        uint256 offset,
+        uint256 limit,
+        address voter
+    ) external view returns (PollRecord[] memory records) {
+        uint256 count = META_VOTE.getPollCount();
+        uint256 available = offset < count ? count - offset : 0;
+        records = new PollRecord[](limit < available ? limit : available);
+        for (uint256 i = 0; i < records.length; i++) {
+            records[i] = _record(offset + i, voter);
+        }
+    }
+
+    /// @dev Reads every getter of poll `pollId` into one record.
+    function _record(uint256 pollId, address voter) private view returns (PollRecord memory record) {
+        record.id = pollId;
+        _readSummary(record);
+        record.options = META_VOTE.getPollOptions(pollId);
+        record.settings = META_VOTE.getPollSettings(pollId);
+        (record.voterCount, ) = META_VOTE.getTurnout(pollId);
+        (record.questions, record.questionSizes) = META_VOTE.getQuestions(pollId);
+        (record.cohorts, , record.cohortVoters) = META_VOTE.getCohorts(pollId);
+        (record.outcome, record.winningOption) = META_VOTE.getPollOutcome(pollId);
+        (record.results, record.proof) = META_VOTE.getPublishedResults(pollId);
+        record.proposal = _proposal(pollId);
+        record.voter = _voter(pollId, voter);
+    }
+
+    /// @dev Copies the fields of `getPollSummary` that the record keeps.
+    function _readSummary(PollRecord memory record) private view {
+        (
+            record.title,
+            record.startTime,
+            record.endTime,
+            ,
+            record.finalized,
+            record.resultsPublished,
+            record.creator,
+            record.cancelled,
+
+        ) = META_VOTE.getPollSummary(record.id);
+    }
+
+    /// @dev Reads the actions of a proposal poll and the state of their execution.
+    function _proposal(uint256 pollId) private view returns (ProposalRecord memory proposal) {
+        (proposal.actions, proposal.executionDelay, proposal.executableAt, proposal.executed) = META_VOTE.getProposal(
+            pollId
+        );
+    }
+
+    /// @dev Reads the vote, delegation and cohort of `account`.
+    function _voter(uint256 pollId, address account) private view returns (VoterRecord memory voter) {
+        voter.voted = META_VOTE.hasUserVoted(pollId, account);
+        (voter.delegatee, voter.representative, voter.delegations, voter.weight) = META_VOTE.getDelegation(
+            pollId,
+            account
+        );
+        (voter.inCohort, voter.cohort) = META_VOTE.getCohortOf(pollId, account);
+    }
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+
+/// @title ProposalExecutor - caller of the actions of MetaVote proposals
+/// @notice Deployed by its MetaVote, which alone can use it. Proposal targets see this contract as the caller: it holds
+///         no FHE ACL permissions, so an action cannot reach the ballots, weights and tallies MetaVote has access to.
+contract ProposalExecutor {
+    /// @notice The MetaVote whose proposals this contract runs.
+    address public immutable META_VOTE;
+
+    /// @notice Raised when an account other than `META_VOTE` calls `run`.
+    error NotMetaVote();
+
+    /// @notice Bind the executor to the MetaVote deploying it.
+    constructor() {
+        META_VOTE = msg.sender;
+    }
+
+    /// @notice Call `target` with `data`. MetaVote only.
+    /// @dev Reverts of the target are bubbled up.
+    /// @param target Contract the action calls.
+    /// @param data Calldata of the action.
+    /// @return Data returned by the target.
+    function run(address target, bytes calldata data) external returns (bytes memory) {
+        if (msg.sender != META_VOTE) {
+            revert NotMetaVote();
+        }
+        return Address.functionCall(target, data);
+    }
+}
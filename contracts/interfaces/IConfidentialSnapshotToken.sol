@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {euint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title IConfidentialSnapshotToken - encrypted-balance token with historical balance lookups
+/// @notice Minimal interface MetaVote needs to weight ballots by a confidential token balance.
+interface IConfidentialSnapshotToken {
+    /// @notice Get the encrypted balance of an account at a past timestamp.
+    /// @dev Implementations must grant the caller transient ACL access to the returned handle.
+    /// @param account Token holder.
+    /// @param timepoint Timestamp strictly lower than the current block timestamp.
+    /// @return balance Encrypted balance held at `timepoint`.
+    function balanceOfAt(address account, uint256 timepoint) external returns (euint64 balance);
+}
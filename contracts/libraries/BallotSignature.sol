@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MetaVote} from "../MetaVote.sol";
+
+/// @title BallotSignature - EIP-712 checks of MetaVote signed ballots
+/// @notice Linked library that recovers the signer of a ballot relayed with `MetaVote.castVoteBySig`, which keeps the
+///         signature code out of the contract size limit.
+library BallotSignature {
+    /// @dev Exposed as `MetaVote.VOTE_TYPEHASH`.
+    bytes32 internal constant VOTE_TYPEHASH =
+        keccak256("Vote(uint256 pollId,bytes32 encryptedChoice,bytes32 inputProofHash,uint256 nonce,uint256 deadline)");
+
+    /// @notice Revert unless `signature` over the EIP-712 `digest` of a `Vote` was made by `voter`.
+    /// @param digest EIP-712 digest of the `Vote`.
+    /// @param voter Expected signer.
+    /// @param signature Signature relayed with the ballot.
+    function verify(bytes32 digest, address voter, bytes calldata signature) external pure {
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, signature);
+        if (error != ECDSA.RecoverError.NoError || signer != voter) {
+            revert MetaVote.InvalidSignature();
+        }
+    }
+}
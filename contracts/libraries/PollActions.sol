@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {CoprocessorConfig, Impl} from "@fhevm/solidity/lib/Impl.sol";
+import {MetaVote} from "../MetaVote.sol";
+import {ProposalExecutor} from "../ProposalExecutor.sol";
+
+/// @title PollActions - on-chain actions of MetaVote proposal polls
+/// @notice Linked library that stores the call attached to each option of a proposal and runs the winning one
+///         through the `ProposalExecutor` of MetaVote, so that targets never see MetaVote as the caller.
+library PollActions {
+    /// @dev Exposed as `MetaVote.MIN_EXECUTION_DELAY`.
+    uint256 internal constant MIN_EXECUTION_DELAY = 1 days;
+
+    /// @notice Replace the actions of a proposal with one action per option and set its timelock.
+    /// @dev Targets must be contracts, or zero for options that run nothing. The FHE ACL, the FHE executor and MetaVote
+    ///      itself are refused: MetaVote holds ACL permissions on every ballot, weight and tally.
+    /// @param proposal Proposal in MetaVote storage.
+    /// @param actions One action per option.
+    /// @param executionDelay Timelock between publication and execution, at least `MIN_EXECUTION_DELAY`.
+    /// @param optionCount Number of options of the poll.
+    function set(
+        MetaVote.Proposal storage proposal,
+        MetaVote.Action[] calldata actions,
+        uint256 executionDelay,
+        uint256 optionCount
+    ) external {
+        if (actions.length != optionCount || executionDelay < MIN_EXECUTION_DELAY) {
+            revert MetaVote.InvalidAction();
+        }
+
+        delete proposal.actions;
+        for (uint256 i = 0; i < actions.length; i++) {
+            address target = actions[i].target;
+            if (target != address(0) && (target.code.length == 0 || _isProtected(target))) {
+                revert MetaVote.InvalidAction();
+            }
+            MetaVote.Action storage action = proposal.actions.push();
+            action.target = target;
+            action.data = actions[i].data;
+        }
+        proposal.executionDelay = executionDelay;
+    }
+
+    /// @notice Run the action of `option` once the proposal timelock has elapsed, and mark the proposal executed
+    ///         first so that the call cannot run it again.
+    /// @dev Reverts of the target are bubbled up and undo the execution, which can be retried later.
+    /// @param proposal Proposal in MetaVote storage.
+    /// @param option Winning option.
+    /// @param executor Executor that calls the target.
+    /// @return target Contract called.
+    /// @return result Data returned by the target.
+    function execute(
+        MetaVote.Proposal storage proposal,
+        uint256 option,
+        ProposalExecutor executor
+    ) external returns (address target, bytes memory result) {
+        if (proposal.executed) {
+            revert MetaVote.ProposalAlreadyExecuted();
+        }
+        if (proposal.executableAt == 0 || block.timestamp < proposal.executableAt) {
+            revert MetaVote.ProposalNotExecutable();
+        }
+
+        proposal.executed = true;
+        MetaVote.Action storage action = proposal.actions[option];
+        target = action.target;
+        result = executor.run(target, action.data);
+    }
+
+    /// @dev Runs through delegatecall, so `address(this)` and the coprocessor config are those of MetaVote.
+    function _isProtected(address target) private view returns (bool) {
+        CoprocessorConfig storage config = Impl.getCoprocessorConfig();
+        return target == config.ACLAddress || target == config.CoprocessorAddress || target == address(this);
+    }
+}
@@ -0,0 +1,474 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, ebool, euint32} from "@fhevm/solidity/lib/FHE.sol";
+import {MetaVote} from "../MetaVote.sol";
+
+/// @title PollTally - encrypted tallies and outcome rules of MetaVote polls
+/// @notice Linked library holding the tally arithmetic of `MetaVote`, which would not fit the contract size limit
+///         otherwise. Its external functions run through delegatecall, so they read and write MetaVote's storage and
+///         act as MetaVote in the FHE access control list.
+library PollTally {
+    /// @dev Abstain and invalid-ballot counters at the end of every tally list.
+    uint256 internal constant COUNTER_TALLIES = 2;
+
+    uint256 internal constant BPS = 10_000;
+
+    /// @dev Exposed as `MetaVote.ABSTAIN`, `MetaVote.MAX_SCORE` and the `MetaVote.MAX_*` limits below.
+    uint32 internal constant ABSTAIN = type(uint32).max;
+    uint32 internal constant MAX_SCORE = 10;
+    uint256 internal constant MAX_OPTIONS = 16;
+    uint256 internal constant MAX_RANKED_OPTIONS = 4;
+    uint256 internal constant MAX_QUESTIONS = 8;
+    uint256 internal constant MAX_COHORTS = 8;
+
+    /// @dev How a ballot changes the tallies: its weight, whether that weight is known to be one, whether the ballot is
+    ///      being retracted, and its cohort index plus one (zero for none).
+    struct Update {
+        euint32 weight;
+        bool unit;
+        bool retract;
+        uint256 cohort;
+    }
+
+    /// @notice Store the questions of a survey and the number of options of each. `setOptions` then takes the options
+    ///         of every question in turn.
+    /// @param poll Poll in MetaVote storage.
+    /// @param questions Survey questions.
+    /// @param optionCounts Number of options of each question.
+    function setQuestions(
+        MetaVote.Poll storage poll,
+        string[] calldata questions,
+        uint8[] calldata optionCounts
+    ) external {
+        if (questions.length == 0 || questions.length > MAX_QUESTIONS || optionCounts.length != questions.length) {
+            revert MetaVote.InvalidOptions();
+        }
+        for (uint256 i = 0; i < questions.length; i++) {
+            if (optionCounts[i] < 2) {
+                revert MetaVote.InvalidOptions();
+            }
+            poll.questions.push(questions[i]);
+        }
+        poll.questionSizes = optionCounts;
+    }
+
+    /// @notice Replace the option labels of a poll and give it a zero tally for every slot its ballot format needs,
+    ///         in every cohort too.
+    /// @dev Survey options must add up to the option counts of the questions, so an edit can only relabel them.
+    /// @param poll Poll in MetaVote storage.
+    /// @param options Option labels, question by question in surveys.
+    function setOptions(MetaVote.Poll storage poll, string[] calldata options) external {
+        MetaVote.PollKind kind = poll.settings.kind;
+        uint256 surveyOptions;
+        for (uint256 i = 0; i < poll.questionSizes.length; i++) {
+            surveyOptions += poll.questionSizes[i];
+        }
+        if (
+            options.length < 2 ||
+            options.length > MAX_OPTIONS ||
+            (kind == MetaVote.PollKind.Ranked && options.length > MAX_RANKED_OPTIONS) ||
+            (kind == MetaVote.PollKind.Survey && options.length != surveyOptions)
+        ) {
+            revert MetaVote.InvalidOptions();
+        }
+
+        delete poll.options;
+        for (uint256 i = 0; i < options.length; i++) {
+            poll.options.push(options[i]);
+        }
+        uint256 tallyCount = options.length;
+        if (kind == MetaVote.PollKind.Ranked) {
+            tallyCount = factorial(options.length);
+        } else if (kind == MetaVote.PollKind.Approval || kind == MetaVote.PollKind.Score) {
+            tallyCount = options.length + 1;
+        } else if (kind == MetaVote.PollKind.Survey) {
+            // Every question but the last keeps its own counters; `COUNTER_TALLIES` below adds the last ones.
+            tallyCount = options.length + (poll.questions.length - 1) * COUNTER_TALLIES;
+        }
+        resetTallies(poll, tallyCount + COUNTER_TALLIES);
+    }
+
+    /// @notice Store the cohort labels of a poll that has no voters yet and give every cohort zero tallies.
+    /// @param poll Poll to split by cohort.
+    /// @param labels Cohort labels (between 1 and `MAX_COHORTS`).
+    function setCohorts(MetaVote.Poll storage poll, string[] calldata labels) external {
+        if (poll.voterCount != 0) {
+            revert MetaVote.PollAlreadyStarted();
+        }
+        if (poll.settings.revealWinnerOnly) {
+            revert MetaVote.InvalidMode();
+        }
+        if (poll.cohorts.length != 0 || labels.length == 0 || labels.length > MAX_COHORTS) {
+            revert MetaVote.InvalidCohort();
+        }
+
+        for (uint256 i = 0; i < labels.length; i++) {
+            poll.cohorts.push(labels[i]);
+            poll.cohortVoters.push();
+        }
+        resetTallies(poll, poll.tallies.length);
+    }
+
+    /// @notice Replace the tallies of a poll, and those of each of its cohorts, with `tallyCount` zero tallies.
+    /// @param poll Poll in MetaVote storage.
+    /// @param tallyCount Number of tallies per list.
+    function resetTallies(MetaVote.Poll storage poll, uint256 tallyCount) public {
+        delete poll.tallies;
+        delete poll.cohortTallies;
+        for (uint256 i = 0; i < tallyCount; i++) {
+            poll.tallies.push(FHE.asEuint32(0));
+            _allow(poll, poll.tallies[i]);
+        }
+        for (uint256 i = 0; i < poll.cohorts.length * tallyCount; i++) {
+            poll.cohortTallies.push(FHE.asEuint32(0));
+            _allow(poll, poll.cohortTallies[i]);
+        }
+    }
+
+    /// @notice Add (or, with `retract`, remove) `weight` on every tally selected by the ballot, and on the same tallies
+    ///         of the ballot's cohort.
+    /// @dev Choices outside the ballot format (option or ranking indexes past the last tally, masks with bits beyond
+    ///      the option count) select no option and land in the invalid tally instead, unless they are `ABSTAIN`.
+    ///      Survey ballots hold one such choice per question, counted in the question's own tallies.
+    ///      Each option costs one comparison and one addition per tally list. Comparisons use plaintext operands, and
+    ///      ballots of unit weight add the selection bit itself instead of selecting between the weight and zero,
+    ///      which keeps a 16-option re-vote well inside the per-transaction HCU limit.
+    /// @param poll Poll in MetaVote storage.
+    /// @param values Encrypted ballot values, one per question in surveys or per option in score polls.
+    /// @param weight Encrypted weight of the ballot.
+    /// @param unit Whether `weight` is known to be one.
+    /// @param retract Whether the ballot is removed instead of added.
+    /// @param cohort Cohort index plus one, or zero for a ballot outside every cohort.
+    function applyBallot(
+        MetaVote.Poll storage poll,
+        euint32[] memory values,
+        euint32 weight,
+        bool unit,
+        bool retract,
+        uint256 cohort
+    ) external {
+        Update memory update = Update(weight, unit, retract, cohort);
+        MetaVote.PollKind kind = poll.settings.kind;
+        if (kind == MetaVote.PollKind.Score) {
+            _applyScores(poll, values, update);
+        } else if (kind == MetaVote.PollKind.Survey) {
+            uint256 first;
+            for (uint256 i = 0; i < values.length; i++) {
+                _applyChoice(poll, values[i], first, poll.questionSizes[i], false, update);
+                first += poll.questionSizes[i] + COUNTER_TALLIES;
+            }
+        } else if (kind == MetaVote.PollKind.Approval) {
+            _applyChoice(poll, values[0], 0, poll.options.length, true, update);
+        } else {
+            _applyChoice(poll, values[0], 0, poll.tallies.length - COUNTER_TALLIES, false, update);
+        }
+    }
+
+    /// @notice Make the results of a finalized poll publicly decryptable: its tallies and cohort tallies, or only the
+    ///         winner and tie flag of a winner-only poll. Cohorts below the minimum turnout reveal zero tallies
+    ///         instead of their own.
+    /// @param poll Poll in MetaVote storage.
+    function reveal(MetaVote.Poll storage poll) external {
+        if (poll.settings.revealWinnerOnly) {
+            _computeWinner(poll);
+            return;
+        }
+        for (uint256 i = 0; i < poll.tallies.length; i++) {
+            poll.tallies[i] = FHE.makePubliclyDecryptable(poll.tallies[i]);
+        }
+        uint256 tallyCount = poll.tallies.length;
+        for (uint256 i = 0; i < poll.cohortTallies.length; i++) {
+            if (poll.cohortVoters[i / tallyCount] < poll.settings.minParticipants) {
+                poll.cohortTallies[i] = FHE.asEuint32(0);
+            }
+            poll.cohortTallies[i] = FHE.makePubliclyDecryptable(poll.cohortTallies[i]);
+        }
+    }
+
+    /// @notice Check decrypted results against the KMS proof, store them and record the outcome of the poll.
+    /// @param poll Poll in MetaVote storage.
+    /// @param clearTallies Decrypted values in the order of `decryptionHandles`.
+    /// @param decryptionProof KMS proof returned by the relayer.
+    function publish(
+        MetaVote.Poll storage poll,
+        uint32[] calldata clearTallies,
+        bytes calldata decryptionProof
+    ) external {
+        bytes32[] memory handles = decryptionHandles(poll);
+        if (clearTallies.length != handles.length) {
+            revert MetaVote.MismatchedResults();
+        }
+
+        bytes memory cleartexts;
+        for (uint256 i = 0; i < clearTallies.length; i++) {
+            cleartexts = bytes.concat(cleartexts, abi.encode(clearTallies[i]));
+        }
+
+        FHE.checkSignatures(handles, cleartexts, decryptionProof);
+
+        poll.publicResults = clearTallies;
+        poll.resultsPublished = true;
+        poll.publicDecryptionProof = decryptionProof;
+        (poll.outcome, poll.winningOption) = decideOutcome(poll, clearTallies);
+    }
+
+    /// @notice Handles `reveal` makes publicly decryptable: the tallies followed by the cohort tallies, or the winner
+    ///         and tie flag of a winner-only poll.
+    /// @param poll Poll in MetaVote storage.
+    /// @return handles Handles in the order `publish` expects.
+    function decryptionHandles(MetaVote.Poll storage poll) public view returns (bytes32[] memory handles) {
+        if (poll.settings.revealWinnerOnly) {
+            handles = new bytes32[](2);
+            handles[0] = euint32.unwrap(poll.winner);
+            handles[1] = ebool.unwrap(poll.tie);
+            return handles;
+        }
+        uint256 tallyCount = poll.tallies.length;
+        handles = new bytes32[](tallyCount + poll.cohortTallies.length);
+        for (uint256 i = 0; i < tallyCount; i++) {
+            handles[i] = euint32.unwrap(poll.tallies[i]);
+        }
+        for (uint256 i = 0; i < poll.cohortTallies.length; i++) {
+            handles[tallyCount + i] = euint32.unwrap(poll.cohortTallies[i]);
+        }
+    }
+
+    /// @dev Encrypted argmax over the option tallies, made publicly decryptable as the poll's winner and tie flag.
+    ///      Follows the tie rule of `decideOutcome`: an option equal to the leader ties it, and a later option ahead
+    ///      of both clears the tie. A poll without ballots ends tied.
+    function _computeWinner(MetaVote.Poll storage poll) private {
+        euint32 best = poll.tallies[0];
+        euint32 winner = FHE.asEuint32(0);
+        ebool tie = FHE.asEbool(false);
+        for (uint256 i = 1; i < poll.options.length; i++) {
+            ebool ahead = FHE.gt(poll.tallies[i], best);
+            tie = FHE.and(FHE.not(ahead), FHE.or(tie, FHE.eq(poll.tallies[i], best)));
+            winner = FHE.select(ahead, FHE.asEuint32(uint32(i)), winner);
+            best = FHE.select(ahead, poll.tallies[i], best);
+        }
+        FHE.allowThis(winner);
+        FHE.allowThis(tie);
+        poll.winner = FHE.makePubliclyDecryptable(winner);
+        poll.tie = FHE.makePubliclyDecryptable(tie);
+    }
+
+    /// @notice Outcome and leading option of a poll from its decrypted results, in the order of
+    ///         `MetaVote.getDecryptionHandles`. Cohort tallies after the poll tallies are ignored.
+    /// @dev Quorum and threshold checks run on the votes per option: the tallies for single-choice and approval polls,
+    ///      the final instant-runoff round for ranked polls, and the score sums for score polls. Surveys decide
+    ///      nothing, so their outcome stays Pending.
+    /// @param poll Poll in MetaVote storage.
+    /// @param clearTallies Decrypted values in the order of `decryptionHandles`.
+    /// @return outcome Outcome of the poll.
+    /// @return winningOption Leading option, zero when tied or without ballots.
+    function decideOutcome(
+        MetaVote.Poll storage poll,
+        uint32[] calldata clearTallies
+    ) public view returns (MetaVote.PollOutcome, uint256) {
+        if (poll.settings.kind == MetaVote.PollKind.Survey) {
+            return (MetaVote.PollOutcome.Pending, 0);
+        }
+        if (poll.settings.revealWinnerOnly) {
+            return
+                clearTallies[1] != 0
+                    ? (MetaVote.PollOutcome.Tie, 0)
+                    : (MetaVote.PollOutcome.Passed, uint256(clearTallies[0]));
+        }
+        (uint256[] memory votes, uint256 cast) = _optionVotes(poll, clearTallies);
+        if (cast == 0 || cast < poll.settings.quorum) {
+            return (MetaVote.PollOutcome.FailedQuorum, 0);
+        }
+        return _leaderOutcome(poll, votes, cast);
+    }
+
+    /// @dev Votes per option that `decideOutcome` judges, and the number of ballots they were cast with.
+    function _optionVotes(
+        MetaVote.Poll storage poll,
+        uint32[] calldata clearTallies
+    ) private view returns (uint256[] memory votes, uint256 cast) {
+        MetaVote.PollKind kind = poll.settings.kind;
+        uint256 optionCount = poll.options.length;
+        if (kind == MetaVote.PollKind.Ranked) {
+            votes = _runoff(clearTallies[:poll.tallies.length - COUNTER_TALLIES], optionCount);
+        } else {
+            votes = new uint256[](optionCount);
+            for (uint256 i = 0; i < optionCount; i++) {
+                votes[i] = clearTallies[i];
+            }
+        }
+        if (kind == MetaVote.PollKind.Approval || kind == MetaVote.PollKind.Score) {
+            cast = clearTallies[optionCount];
+        } else {
+            for (uint256 i = 0; i < optionCount; i++) {
+                cast += votes[i];
+            }
+        }
+    }
+
+    /// @dev Tie when another option equals the leader; otherwise the leader passes if its share clears the threshold.
+    function _leaderOutcome(
+        MetaVote.Poll storage poll,
+        uint256[] memory votes,
+        uint256 cast
+    ) private view returns (MetaVote.PollOutcome, uint256) {
+        uint256 leader;
+        bool tied;
+        for (uint256 i = 1; i < votes.length; i++) {
+            if (votes[i] > votes[leader]) {
+                leader = i;
+                tied = false;
+            } else if (votes[i] == votes[leader]) {
+                tied = true;
+            }
+        }
+        if (tied) {
+            return (MetaVote.PollOutcome.Tie, 0);
+        }
+
+        uint256 scale = poll.settings.kind == MetaVote.PollKind.Score ? MAX_SCORE : 1;
+        bool cleared = votes[leader] * BPS > uint256(poll.settings.thresholdBps) * cast * scale;
+        return (cleared ? MetaVote.PollOutcome.Passed : MetaVote.PollOutcome.Rejected, leader);
+    }
+
+    /// @notice Number of orderings of `n` options.
+    /// @param n Number of options.
+    /// @return result `n!`.
+    function factorial(uint256 n) internal pure returns (uint256 result) {
+        result = 1;
+        for (uint256 i = 2; i <= n; i++) {
+            result *= i;
+        }
+    }
+
+    /// @dev Counts one choice in the `count` choice tallies starting at `first`, which approval choices follow with
+    ///      their ballot count. The abstain and invalid tallies come next.
+    function _applyChoice(
+        MetaVote.Poll storage poll,
+        euint32 choice,
+        uint256 first,
+        uint256 count,
+        bool approval,
+        Update memory update
+    ) private {
+        ebool valid = FHE.lt(choice, uint32(approval ? 1 << count : count));
+        ebool abstain = FHE.eq(choice, ABSTAIN);
+        if (approval) {
+            choice = FHE.select(valid, choice, FHE.asEuint32(0));
+        }
+
+        for (uint256 i = 0; i < count; i++) {
+            euint32 amount;
+            if (approval && update.unit) {
+                amount = FHE.and(FHE.shr(choice, uint8(i)), uint32(1));
+            } else {
+                ebool selected = approval
+                    ? FHE.ne(FHE.and(choice, uint32(1 << i)), uint32(0))
+                    : FHE.eq(choice, uint32(i));
+                amount = _selectedWeight(selected, update);
+            }
+            _updateTally(poll, first + i, amount, update);
+        }
+        uint256 counters = first + count;
+        if (approval) {
+            _updateTally(poll, counters++, _selectedWeight(valid, update), update);
+        }
+
+        ebool invalid = FHE.not(FHE.or(valid, abstain));
+        _updateTally(poll, counters, _selectedWeight(abstain, update), update);
+        _updateTally(poll, counters + 1, _selectedWeight(invalid, update), update);
+    }
+
+    /// @dev Score tallies hold the weighted score sums per option, then the total weight of the ballots cast.
+    function _applyScores(MetaVote.Poll storage poll, euint32[] memory scores, Update memory update) private {
+        for (uint256 i = 0; i < scores.length; i++) {
+            _updateTally(poll, i, update.unit ? scores[i] : FHE.mul(scores[i], update.weight), update);
+        }
+        _updateTally(poll, scores.length, update.weight, update);
+    }
+
+    /// @dev The ballot weight when `selected` holds, zero otherwise. A unit weight is the selection bit itself.
+    function _selectedWeight(ebool selected, Update memory update) private returns (euint32) {
+        return update.unit ? FHE.asEuint32(selected) : FHE.select(selected, update.weight, FHE.asEuint32(0));
+    }
+
+    /// @dev Cohort `c` (one-based) keeps its copy of tally `index` at `(c - 1) * tallies.length + index`.
+    function _updateTally(MetaVote.Poll storage poll, uint256 index, euint32 amount, Update memory update) private {
+        poll.tallies[index] = _apply(poll.tallies[index], amount, update.retract);
+        _allow(poll, poll.tallies[index]);
+        if (update.cohort != 0) {
+            uint256 slot = (update.cohort - 1) * poll.tallies.length + index;
+            poll.cohortTallies[slot] = _apply(poll.cohortTallies[slot], amount, update.retract);
+            _allow(poll, poll.cohortTallies[slot]);
+        }
+    }
+
+    function _apply(euint32 tally, euint32 amount, bool retract) private returns (euint32) {
+        return retract ? FHE.sub(tally, amount) : FHE.add(tally, amount);
+    }
+
+    /// @dev Every new tally handle needs a fresh grant, so peeking creators can follow the running count.
+    function _allow(MetaVote.Poll storage poll, euint32 tally) private {
+        FHE.allowThis(tally);
+        if (poll.settings.creatorCanPeek) {
+            FHE.allow(tally, poll.creator);
+        }
+    }
+
+    /// @dev Replays instant-runoff rounds over a ranking histogram and returns the votes of the final round, which
+    ///      ends on a majority or with two options left. Ties for last place eliminate the higher option index, like
+    ///      `task:tally-ranked`.
+    function _runoff(uint32[] calldata histogram, uint256 optionCount) private pure returns (uint256[] memory votes) {
+        uint256 eliminated;
+        for (uint256 round = 1; ; round++) {
+            votes = new uint256[](optionCount);
+            uint256 total;
+            for (uint256 i = 0; i < histogram.length; i++) {
+                votes[_topRanked(i, optionCount, eliminated)] += histogram[i];
+                total += histogram[i];
+            }
+            if (round + 1 >= optionCount) {
+                return votes;
+            }
+
+            uint256 last = type(uint256).max;
+            for (uint256 i = 0; i < optionCount; i++) {
+                if ((eliminated >> i) & 1 == 1) {
+                    continue;
+                }
+                if (votes[i] * 2 > total) {
+                    return votes;
+                }
+                if (last == type(uint256).max || votes[i] <= votes[last]) {
+                    last = i;
+                }
+            }
+            eliminated |= 1 << last;
+        }
+    }
+
+    /// @dev Decodes the ranking with Lehmer index `index` and returns its best option that is not eliminated.
+    function _topRanked(uint256 index, uint256 optionCount, uint256 eliminated) private pure returns (uint256) {
+        uint256 unplaced = (1 << optionCount) - 1;
+        for (uint256 position = optionCount; position > 0; position--) {
+            uint256 base = factorial(position - 1);
+            uint256 digit = index / base;
+            index %= base;
+
+            uint256 option;
+            for (; ; option++) {
+                if ((unplaced >> option) & 1 == 1) {
+                    if (digit == 0) {
+                        break;
+                    }
+                    digit--;
+                }
+            }
+            if ((eliminated >> option) & 1 == 0) {
+                return option;
+            }
+            unplaced &= ~(1 << option);
+        }
+        return 0;
+    }
+}
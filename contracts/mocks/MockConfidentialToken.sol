@@ -0,0 +1,81 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IConfidentialSnapshotToken} from "../interfaces/IConfidentialSnapshotToken.sol";
+
+/// @title MockConfidentialToken - encrypted-balance token with timestamp checkpoints
+/// @notice Test helper for weighted MetaVote polls. Anyone can mint.
+contract MockConfidentialToken is IConfidentialSnapshotToken, ZamaEthereumConfig {
+    /// @notice Balance of an account from `timepoint` until its next checkpoint.
+    struct Checkpoint {
+        uint256 timepoint;
+        euint64 balance;
+    }
+
+    mapping(address account => Checkpoint[] history) private checkpoints;
+
+    /// @notice Raised by `balanceOfAt` for a timestamp that is not in the past yet.
+    error FutureLookup();
+
+    /// @notice Mint a clear amount to an account.
+    /// @param to Account credited.
+    /// @param amount Clear amount to mint.
+    function mint(address to, uint64 amount) external {
+        _writeBalance(to, FHE.add(balanceOf(to), FHE.asEuint64(amount)));
+    }
+
+    /// @notice Transfer an encrypted amount. Transfers above the balance move nothing.
+    /// @param to Account credited.
+    /// @param encryptedAmount Encrypted amount to move.
+    /// @param inputProof Proof of the encrypted input.
+    function confidentialTransfer(address to, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        euint64 fromBalance = balanceOf(msg.sender);
+        ebool enough = FHE.le(amount, fromBalance);
+        euint64 moved = FHE.select(enough, amount, FHE.asEuint64(0));
+
+        _writeBalance(msg.sender, FHE.sub(fromBalance, moved));
+        _writeBalance(to, FHE.add(balanceOf(to), moved));
+    }
+
+    /// @notice Get the current encrypted balance of an account.
+    /// @param account Token holder.
+    /// @return Encrypted balance of `account`.
+    function balanceOf(address account) public returns (euint64) {
+        Checkpoint[] storage history = checkpoints[account];
+        if (history.length == 0) {
+            return FHE.asEuint64(0);
+        }
+        return history[history.length - 1].balance;
+    }
+
+    /// @inheritdoc IConfidentialSnapshotToken
+    function balanceOfAt(address account, uint256 timepoint) external returns (euint64 balance) {
+        if (timepoint >= block.timestamp) {
+            revert FutureLookup();
+        }
+
+        Checkpoint[] storage history = checkpoints[account];
+        uint256 index = history.length;
+        while (index > 0 && history[index - 1].timepoint > timepoint) {
+            --index;
+        }
+        balance = index == 0 ? FHE.asEuint64(0) : history[index - 1].balance;
+        FHE.allowTransient(balance, msg.sender);
+    }
+
+    /// @dev Checkpoints a new balance of `account`, replacing the checkpoint of the current block if there is one.
+    function _writeBalance(address account, euint64 balance) private {
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+
+        Checkpoint[] storage history = checkpoints[account];
+        if (history.length > 0 && history[history.length - 1].timepoint == block.timestamp) {
+            history[history.length - 1].balance = balance;
+        } else {
+            history.push(Checkpoint({timepoint: block.timestamp, balance: balance}));
+        }
+    }
+}
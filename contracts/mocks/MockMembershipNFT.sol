@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC721Enumerable} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+
+/// @title MockMembershipNFT - enumerable ERC-721 membership card
+/// @notice Test helper for NFT-gated MetaVote polls. Anyone can mint.
+contract MockMembershipNFT is ERC721Enumerable {
+    uint256 private nextTokenId;
+
+    /// @notice Deploy the collection with no tokens minted.
+    constructor() ERC721("MetaVote Member", "MEMBER") {}
+
+    /// @notice Mint the next token id to an account.
+    /// @param to Account receiving the token.
+    /// @return tokenId Id of the minted token.
+    function mint(address to) external returns (uint256 tokenId) {
+        tokenId = nextTokenId++;
+        _mint(to, tokenId);
+    }
+}
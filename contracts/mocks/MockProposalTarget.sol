@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/// @title MockProposalTarget - contract governed by MetaVote proposals
+/// @notice Test helper for executable proposals. Only its governor can change the stored value.
+contract MockProposalTarget {
+    /// @notice Only caller allowed to set the value, the `ProposalExecutor` of a MetaVote in tests.
+    address public immutable GOVERNOR;
+    /// @notice Last value stored through `setValue`.
+    uint256 public value;
+    /// @notice Number of successful `setValue` calls.
+    uint256 public updates;
+
+    /// @notice Raised when an account other than `GOVERNOR` calls `setValue`.
+    error NotGovernor();
+    /// @notice Raised by every call to `refuse`.
+    error Refused();
+
+    /// @notice Deploy a target governed by `governor`.
+    /// @param governor Only caller allowed to set the value.
+    constructor(address governor) {
+        GOVERNOR = governor;
+    }
+
+    /// @notice Store a new value. Governor only.
+    /// @param newValue Value to store.
+    /// @return The stored value.
+    function setValue(uint256 newValue) external returns (uint256) {
+        if (msg.sender != GOVERNOR) {
+            revert NotGovernor();
+        }
+        value = newValue;
+        ++updates;
+        return newValue;
+    }
+
+    /// @notice Always reverts, for proposals whose execution fails.
+    function refuse() external pure {
+        revert Refused();
+    }
+}
@@ -5,12 +5,40 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
+  const deployedPollTally = await deploy("PollTally", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedPollActions = await deploy("PollActions", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedBallotSignature = await deploy("BallotSignature", {
+    from: deployer,
+    log: true,
+  });
+
   const deployedMetaVote = await deploy("MetaVote", {
     from: deployer,
     log: true,
+    libraries: {
+      BallotSignature: deployedBallotSignature.address,
+      PollActions: deployedPollActions.address,
+      PollTally: deployedPollTally.address,
+    },
   });
 
   console.log(`MetaVote contract: `, deployedMetaVote.address);
+
+  const deployedMetaVoteLens = await deploy("MetaVoteLens", {
+    from: deployer,
+    args: [deployedMetaVote.address],
+    log: true,
+  });
+
+  console.log(`MetaVoteLens contract: `, deployedMetaVoteLens.address);
 };
 export default func;
 func.id = "deploy_metaVote"; // id required to prevent reexecution
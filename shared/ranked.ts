@@ -0,0 +1,120 @@
+/**
+ * Helpers for ranked polls. A ranked ballot is the index of a complete ranking among the n! orderings of the
+ * options (its Lehmer code, most preferred option first), and the published tallies count each ordering. Shared by
+ * the Hardhat tasks, which cast ranked ballots and replay their runoff, and by the app, which does the same in the
+ * browser.
+ */
+
+export type RunoffRound = {
+  /** First-preference count of every option still in the race, null once eliminated. */
+  counts: (number | null)[];
+  eliminated?: number;
+};
+
+export type RunoffResult = {
+  rounds: RunoffRound[];
+  /** Undefined when no ballots were cast or the last two options tie. */
+  winner?: number;
+};
+
+export function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) {
+    result *= i;
+  }
+  return result;
+}
+
+export function rankingToIndex(ranking: number[], optionCount: number): number {
+  const sorted = [...ranking].sort((a, b) => a - b);
+  if (ranking.length !== optionCount || sorted.some((option, index) => option !== index)) {
+    throw new Error(`A ranking must list every option from 0 to ${optionCount - 1} exactly once`);
+  }
+
+  const remaining = sorted;
+  let index = 0;
+  ranking.forEach((option, position) => {
+    const digit = remaining.indexOf(option);
+    remaining.splice(digit, 1);
+    index += digit * factorial(optionCount - 1 - position);
+  });
+  return index;
+}
+
+export function indexToRanking(index: number, optionCount: number): number[] {
+  const remaining = Array.from({ length: optionCount }, (_, option) => option);
+  const ranking: number[] = [];
+  for (let position = optionCount - 1; position >= 0; position--) {
+    const base = factorial(position);
+    ranking.push(remaining.splice(Math.floor(index / base), 1)[0]);
+    index %= base;
+  }
+  return ranking;
+}
+
+/**
+ * Replays instant-runoff rounds over the published ranking histogram. An option with more than half of the ballots
+ * wins; otherwise the option with the fewest votes is eliminated, ties going against the higher option index as in
+ * `PollTally._runoff`. A tie between the last two options has no winner, matching the Tie outcome recorded by
+ * `publishResults`.
+ */
+export function instantRunoff(tallies: number[], optionCount: number): RunoffResult {
+  const rankings = tallies.map((_, index) => indexToRanking(index, optionCount));
+  const eliminated = new Set<number>();
+  const rounds: RunoffRound[] = [];
+  const total = tallies.reduce((sum, value) => sum + value, 0);
+  if (total === 0) {
+    return { rounds };
+  }
+
+  for (;;) {
+    const counts: (number | null)[] = Array.from({ length: optionCount }, (_, option) =>
+      eliminated.has(option) ? null : 0,
+    );
+    rankings.forEach((ranking, index) => {
+      const top = ranking.find((option) => !eliminated.has(option)) as number;
+      counts[top] = (counts[top] as number) + tallies[index];
+    });
+
+    const standing = counts.flatMap((count, option) => (count === null ? [] : [{ option, count }]));
+    const leader = standing.reduce((best, entry) => (entry.count > best.count ? entry : best));
+    if (leader.count * 2 > total) {
+      rounds.push({ counts });
+      return { rounds, winner: leader.option };
+    }
+    if (standing.length <= 2) {
+      rounds.push({ counts });
+      return { rounds, winner: undefined };
+    }
+
+    const last = standing.reduce((worst, entry) => (entry.count <= worst.count ? entry : worst));
+    rounds.push({ counts, eliminated: last.option });
+    eliminated.add(last.option);
+  }
+}
+
+/** Returns the option that beats every other option head-to-head, if there is one. */
+export function condorcetWinner(tallies: number[], optionCount: number): number | undefined {
+  const wins = Array.from({ length: optionCount }, () => new Array<number>(optionCount).fill(0));
+  tallies.forEach((count, index) => {
+    const ranking = indexToRanking(index, optionCount);
+    ranking.forEach((option, position) => {
+      ranking.slice(position + 1).forEach((other) => {
+        wins[option][other] += count;
+      });
+    });
+  });
+
+  for (let option = 0; option < optionCount; option++) {
+    let beatsAll = true;
+    for (let other = 0; other < optionCount; other++) {
+      if (other !== option && wins[option][other] <= wins[other][option]) {
+        beatsAll = false;
+      }
+    }
+    if (beatsAll) {
+      return option;
+    }
+  }
+  return undefined;
+}
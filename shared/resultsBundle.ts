@@ -0,0 +1,158 @@
+/**
+ * Results bundles: a self-contained record of a published poll for auditors. It holds what the KMS decrypted (the
+ * handles, their clear values and the decryption proof) with the poll it belongs to, where it was read from and who
+ * voted. Shared by the Hardhat tasks, which export and verify bundles, and by the app, whose "Download results" button
+ * writes the same JSON and whose "Verified" badge runs `verifyResultsBundle`.
+ */
+import { AbiCoder, TypedDataEncoder, getBytes, hexlify, recoverAddress } from "ethers";
+
+export const RESULTS_FORMAT = "metavote-results/1";
+
+export type ResultsBundle = {
+  format: typeof RESULTS_FORMAT;
+  chainId: string;
+  contract: string;
+  poll: {
+    id: number;
+    title: string;
+    creator: string;
+    startTime: number;
+    endTime: number;
+    /** Mirrors MetaVote.PollKind. */
+    kind: number;
+    /** Survey options are listed question by question, split by `questionSizes`. */
+    options: string[];
+    questions: string[];
+    questionSizes: number[];
+    cohorts: string[];
+    settings: {
+      eligibilityRoot: string;
+      weightToken: string;
+      membershipToken: string;
+      quorum: number;
+      thresholdBps: number;
+      minParticipants: number;
+      revealWinnerOnly: boolean;
+      creatorCanPeek: boolean;
+    };
+    /** Mirrors MetaVote.PollOutcome. */
+    outcome: number;
+    winningOption: number;
+  };
+  /** Number of poll tallies (see MetaVote.getEncryptedTallies); `clearTallies` repeats them for every cohort. */
+  tallyCount: number;
+  /** Handles the KMS decrypted, in the order of `clearTallies` (see MetaVote.getDecryptionHandles). */
+  handles: string[];
+  /** Published results: the tallies then the cohort tallies, or the winning option and tie flag in winner-only polls. */
+  clearTallies: number[];
+  publicDecryptionProof: string;
+  blocks: { created: number; finalized: number; published: number; exported: number };
+  /** Addresses that voted, in the order of their first ballot. */
+  voters: string[];
+};
+
+/** The parts of a bundle the KMS signatures cover, with what sets the number of handles of the poll. */
+export type SignedResults = Pick<ResultsBundle, "tallyCount" | "handles" | "clearTallies" | "publicDecryptionProof"> & {
+  poll: { cohorts: string[]; settings: { revealWinnerOnly: boolean } };
+};
+
+/**
+ * What a results bundle is checked against: the KMS signers, how many of them must sign, and the EIP-712 domain of
+ * their signatures. `readKmsConfig` of the tasks reads it from the KMSVerifier of a chain; saved to a file, it lets
+ * `verifyResultsBundle` run without chain access.
+ */
+export type KmsConfig = {
+  domain: { name: string; version: string; chainId: number; verifyingContract: string };
+  signers: string[];
+  threshold: number;
+};
+
+export type BundleVerification = {
+  valid: boolean;
+  /** Distinct KMS signers whose signature over the results is valid. */
+  signers: string[];
+  problems: string[];
+};
+
+/** KMSVerifier of the Zama protocol on Sepolia. The Hardhat FHEVM mock deploys its own at the same address. */
+export const KMS_VERIFIER_ADDRESS = "0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A";
+
+/** Mirrors KMSVerifier.EIP712_PUBLIC_DECRYPT_TYPE. */
+const PUBLIC_DECRYPT_TYPES = {
+  PublicDecryptVerification: [
+    { name: "ctHandles", type: "bytes32[]" },
+    { name: "decryptedResult", type: "bytes" },
+    { name: "extraData", type: "bytes" },
+  ],
+};
+
+const SIGNATURE_LENGTH = 65;
+
+/**
+ * Checks the decryption proof of a bundle the way `publishResults` does, without the chain: the clear tallies are
+ * ABI-encoded one 32-byte word each, and at least `threshold` distinct signers of `kms` must have signed them with
+ * the handles. Unlike the KMSVerifier, any signature from outside the signer set fails the bundle. Also checks that
+ * the handles fit the poll, and match `expectedHandles` when the caller derived them from the chain.
+ */
+export function verifyResultsBundle(
+  bundle: SignedResults,
+  kms: KmsConfig,
+  expectedHandles?: string[],
+): BundleVerification {
+  const problems: string[] = [];
+  const { handles, clearTallies, tallyCount, poll } = bundle;
+  const handleCount = poll.settings.revealWinnerOnly ? 2 : tallyCount * (poll.cohorts.length + 1);
+  if (handles.length !== handleCount) {
+    problems.push(`expected ${handleCount} handles for this poll, the bundle has ${handles.length}`);
+  }
+  if (clearTallies.length !== handles.length) {
+    problems.push(`${clearTallies.length} clear tallies for ${handles.length} handles`);
+  }
+  if (expectedHandles && expectedHandles.join() !== handles.join()) {
+    problems.push("the handles differ from the poll tallies on chain");
+  }
+
+  let cleartexts: string;
+  try {
+    cleartexts = AbiCoder.defaultAbiCoder().encode(
+      clearTallies.map(() => "uint32"),
+      clearTallies,
+    );
+  } catch {
+    return { valid: false, signers: [], problems: [...problems, "the clear tallies are not all uint32 values"] };
+  }
+
+  const proof = getBytes(bundle.publicDecryptionProof);
+  const signatureCount = proof[0] ?? 0;
+  const extraDataOffset = 1 + SIGNATURE_LENGTH * signatureCount;
+  if (signatureCount === 0 || proof.length < extraDataOffset) {
+    return { valid: false, signers: [], problems: [...problems, "the decryption proof holds no KMS signatures"] };
+  }
+  const digest = TypedDataEncoder.hash(kms.domain, PUBLIC_DECRYPT_TYPES, {
+    ctHandles: handles,
+    decryptedResult: cleartexts,
+    extraData: hexlify(proof.slice(extraDataOffset)),
+  });
+
+  const known = new Set(kms.signers.map((signer) => signer.toLowerCase()));
+  const signers = new Set<string>();
+  for (let i = 0; i < signatureCount; i++) {
+    const signature = hexlify(proof.slice(1 + SIGNATURE_LENGTH * i, 1 + SIGNATURE_LENGTH * (i + 1)));
+    let signer: string;
+    try {
+      signer = recoverAddress(digest, signature);
+    } catch {
+      problems.push(`signature ${i} is malformed`);
+      continue;
+    }
+    if (known.has(signer.toLowerCase())) {
+      signers.add(signer);
+    } else {
+      problems.push(`signature ${i} recovers to ${signer}, which is not a KMS signer`);
+    }
+  }
+  if (signers.size < kms.threshold) {
+    problems.push(`${signers.size} valid KMS signature(s), the threshold is ${kms.threshold}`);
+  }
+  return { valid: problems.length === 0, signers: [...signers], problems };
+}
@@ -0,0 +1,334 @@
+/**
+ * Event indexer for MetaVote. It keeps the poll events of one deployment in a JSON store together with the hashes of
+ * the last blocks it indexed, so that it resumes after its checkpoint and drops the events of blocks a reorg replaced.
+ * Polls and voters are rebuilt from the stored events on every query, and `createIndexServer` serves them over HTTP.
+ */
+import * as fs from "fs";
+import * as http from "http";
+import type { Interface, Log, Provider } from "ethers";
+
+/** Events the indexer follows. Edits, extensions and cancellations keep the indexed title and window current. */
+export const INDEXED_EVENTS = [
+  "PollCreated",
+  "PollEdited",
+  "PollExtended",
+  "PollCancelled",
+  "VoteSubmitted",
+  "VoteChanged",
+  "PollFinalized",
+  "ResultsPublished",
+  "PollOutcomeRecorded",
+] as const;
+
+/** Indexed blocks whose hashes are kept to find where a reorg forked. A deeper reorg rebuilds the whole index. */
+const TRACKED_BLOCKS = 128;
+
+type EventSource = {
+  pollId: number;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  /** Timestamp of the block, in seconds. */
+  timestamp: number;
+};
+
+export type IndexedEvent = EventSource &
+  (
+    | { name: "PollCreated"; title: string; startTime: number; endTime: number }
+    | { name: "PollEdited"; title: string }
+    | { name: "PollExtended"; endTime: number }
+    | { name: "VoteSubmitted" | "VoteChanged"; voter: string }
+    | { name: "PollCancelled" | "PollFinalized" }
+    | { name: "ResultsPublished"; results: number[] }
+    | { name: "PollOutcomeRecorded"; outcome: number; winningOption: number }
+  );
+
+export type IndexState = {
+  chainId: string;
+  contract: string;
+  /** First block scanned. */
+  fromBlock: number;
+  /** Latest indexed blocks, oldest first. The last one is the checkpoint the next sync resumes after. */
+  blocks: { number: number; hash: string }[];
+  events: IndexedEvent[];
+};
+
+export type IndexedPoll = {
+  id: number;
+  title: string;
+  startTime: number;
+  endTime: number;
+  createdAt: number;
+  createdBlock: number;
+  transactionHash: string;
+  cancelled: boolean;
+  /** Addresses that voted, and ballots they cast including re-votes. */
+  voterCount: number;
+  ballotCount: number;
+  lastVoteAt?: number;
+  finalizedAt?: number;
+  publishedAt?: number;
+  results?: number[];
+  /** Mirrors MetaVote.PollOutcome, once recorded. */
+  outcome?: number;
+  winningOption?: number;
+};
+
+export type IndexedVoter = {
+  voter: string;
+  /** Ballots cast, the first one and its re-votes. */
+  ballots: number;
+  firstVotedAt: number;
+  lastVotedAt: number;
+  /** Transaction of the latest ballot. */
+  transactionHash: string;
+};
+
+export type SyncOptions = {
+  /** Blocks read per `eth_getLogs` request. */
+  batchSize?: number;
+  /** Blocks to stay behind the head. Reorgs are rolled back either way; this only avoids indexing short forks. */
+  confirmations?: number;
+};
+
+/** Loads the index of `contract` from `path`, or starts a new one that scans from `fromBlock`. */
+export function loadIndex(path: string, chainId: bigint, contract: string, fromBlock: number): IndexState {
+  if (!fs.existsSync(path)) {
+    return { chainId: chainId.toString(), contract, fromBlock, blocks: [], events: [] };
+  }
+  const state = JSON.parse(fs.readFileSync(path, "utf8")) as IndexState;
+  if (state.chainId !== chainId.toString() || state.contract.toLowerCase() !== contract.toLowerCase()) {
+    throw new Error(`${path} indexes ${state.contract} on chain ${state.chainId}; use another store`);
+  }
+  return state;
+}
+
+/** Writes through a temporary file, so that an interrupted save keeps the previous checkpoint. */
+export function saveIndex(path: string, state: IndexState) {
+  fs.writeFileSync(`${path}.tmp`, JSON.stringify(state, null, 2));
+  fs.renameSync(`${path}.tmp`, path);
+}
+
+/** Last block whose events are in the index. */
+export function indexedBlock(state: IndexState): number {
+  return state.blocks.length > 0 ? state.blocks[state.blocks.length - 1].number : state.fromBlock - 1;
+}
+
+/**
+ * Drops the events of blocks a reorg replaced: walks the tracked block hashes back to the newest one still on the
+ * chain and keeps only the events up to it. Returns the number of events dropped.
+ */
+async function rollBack(provider: Provider, state: IndexState): Promise<number> {
+  let kept = state.blocks.length;
+  while (kept > 0) {
+    const tracked = state.blocks[kept - 1];
+    if ((await provider.getBlock(tracked.number))?.hash === tracked.hash) {
+      break;
+    }
+    kept--;
+  }
+  if (kept === state.blocks.length) {
+    return 0;
+  }
+  state.blocks = state.blocks.slice(0, kept);
+  const ancestor = indexedBlock(state);
+  const before = state.events.length;
+  state.events = state.events.filter((event) => event.blockNumber <= ancestor);
+  return before - state.events.length;
+}
+
+function toEvent(iface: Interface, log: Log, timestamp: number): IndexedEvent {
+  const parsed = iface.parseLog(log)!;
+  const { args } = parsed;
+  const source: EventSource = {
+    pollId: Number(args.pollId),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+    timestamp,
+  };
+  switch (parsed.name) {
+    case "PollCreated":
+      return {
+        ...source,
+        name: "PollCreated",
+        title: args.title,
+        startTime: Number(args.startTime),
+        endTime: Number(args.endTime),
+      };
+    case "PollEdited":
+      return { ...source, name: "PollEdited", title: args.title };
+    case "PollExtended":
+      return { ...source, name: "PollExtended", endTime: Number(args.endTime) };
+    case "VoteSubmitted":
+    case "VoteChanged":
+      return { ...source, name: parsed.name, voter: args.voter };
+    case "ResultsPublished":
+      return { ...source, name: "ResultsPublished", results: args.results.map(Number) };
+    case "PollOutcomeRecorded":
+      return {
+        ...source,
+        name: "PollOutcomeRecorded",
+        outcome: Number(args.outcome),
+        winningOption: Number(args.winningOption),
+      };
+    default:
+      return { ...source, name: parsed.name as "PollCancelled" | "PollFinalized" };
+  }
+}
+
+/**
+ * Rolls back any reorg, then indexes the events up to the chain head in batches. `state` is updated in place; save it
+ * with `saveIndex` to checkpoint. A reorg during the sync stops it before the affected batch is stored, and the next
+ * sync rolls it back first.
+ */
+export async function syncIndex(
+  provider: Provider,
+  iface: Interface,
+  state: IndexState,
+  { batchSize = 2000, confirmations = 0 }: SyncOptions = {},
+): Promise<{ added: number; removed: number }> {
+  const removed = await rollBack(provider, state);
+  const head = (await provider.getBlockNumber()) - confirmations;
+  const topics = INDEXED_EVENTS.map((name) => iface.getEvent(name)!.topicHash);
+
+  let added = 0;
+  for (let from = indexedBlock(state) + 1; from <= head; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, head);
+    const last = await provider.getBlock(to);
+    const logs = await provider.getLogs({ address: state.contract, fromBlock: from, toBlock: to, topics: [topics] });
+    const timestamps = new Map<string, number | undefined>();
+    for (const log of logs) {
+      if (!timestamps.has(log.blockHash)) {
+        timestamps.set(log.blockHash, (await provider.getBlock(log.blockHash))?.timestamp);
+      }
+    }
+    // Any reorg of the batch changes the hash of its last block, and the logs may belong to the replaced fork.
+    const current = await provider.getBlock(to);
+    if (!last?.hash || current?.hash !== last.hash || [...timestamps.values()].includes(undefined)) {
+      break;
+    }
+
+    state.events.push(...logs.map((log) => toEvent(iface, log, timestamps.get(log.blockHash)!)));
+    added += logs.length;
+    state.blocks = [...state.blocks, { number: to, hash: last.hash }].slice(-TRACKED_BLOCKS);
+  }
+  return { added, removed };
+}
+
+/** Replays the indexed events into polls and their voters. Events of polls created before `fromBlock` are skipped. */
+function replay(state: IndexState): Map<number, { poll: IndexedPoll; voters: Map<string, IndexedVoter> }> {
+  const polls = new Map<number, { poll: IndexedPoll; voters: Map<string, IndexedVoter> }>();
+  for (const event of state.events) {
+    if (event.name === "PollCreated") {
+      polls.set(event.pollId, {
+        poll: {
+          id: event.pollId,
+          title: event.title,
+          startTime: event.startTime,
+          endTime: event.endTime,
+          createdAt: event.timestamp,
+          createdBlock: event.blockNumber,
+          transactionHash: event.transactionHash,
+          cancelled: false,
+          voterCount: 0,
+          ballotCount: 0,
+        },
+        voters: new Map(),
+      });
+      continue;
+    }
+    const entry = polls.get(event.pollId);
+    if (!entry) {
+      continue;
+    }
+    const { poll, voters } = entry;
+    switch (event.name) {
+      case "PollEdited":
+        poll.title = event.title;
+        break;
+      case "PollExtended":
+        poll.endTime = event.endTime;
+        break;
+      case "PollCancelled":
+        poll.cancelled = true;
+        break;
+      case "VoteSubmitted":
+      case "VoteChanged": {
+        const voter = voters.get(event.voter) ?? {
+          voter: event.voter,
+          ballots: 0,
+          firstVotedAt: event.timestamp,
+          lastVotedAt: event.timestamp,
+          transactionHash: event.transactionHash,
+        };
+        voter.ballots++;
+        voter.lastVotedAt = event.timestamp;
+        voter.transactionHash = event.transactionHash;
+        voters.set(event.voter, voter);
+        poll.voterCount = voters.size;
+        poll.ballotCount++;
+        poll.lastVoteAt = event.timestamp;
+        break;
+      }
+      case "PollFinalized":
+        poll.finalizedAt = event.timestamp;
+        break;
+      case "ResultsPublished":
+        poll.publishedAt = event.timestamp;
+        poll.results = event.results;
+        break;
+      case "PollOutcomeRecorded":
+        poll.outcome = event.outcome;
+        poll.winningOption = event.winningOption;
+        break;
+    }
+  }
+  return polls;
+}
+
+export function listIndexedPolls(state: IndexState): IndexedPoll[] {
+  return [...replay(state).values()].map(({ poll }) => poll);
+}
+
+/**
+ * HTTP API over the index, answering `GET /polls`, `GET /polls/:id` and `GET /polls/:id/voters` with JSON. Every
+ * answer names the indexed `contract` and the `indexedBlock` it reflects. CORS is open for the VoteApp.
+ */
+export function createIndexServer(getState: () => IndexState): http.Server {
+  return http.createServer((request, response) => {
+    const reply = (status: number, body: object) => {
+      response.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "Content-Type",
+      });
+      response.end(JSON.stringify(body));
+    };
+
+    const route = /^\/polls(?:\/(\d+)(\/voters)?)?\/?$/.exec(new URL(request.url ?? "/", "http://localhost").pathname);
+    if (request.method === "OPTIONS") {
+      reply(204, {});
+    } else if (request.method !== "GET" || !route) {
+      reply(404, { error: "Not found" });
+    } else {
+      const state = getState();
+      const source = { contract: state.contract, indexedBlock: indexedBlock(state) };
+      if (route[1] === undefined) {
+        reply(200, { ...source, polls: listIndexedPolls(state) });
+        return;
+      }
+      const pollId = parseInt(route[1], 10);
+      const entry = replay(state).get(pollId);
+      if (!entry) {
+        reply(404, { error: `Poll ${pollId} is not indexed` });
+      } else if (route[2]) {
+        reply(200, { ...source, pollId, voters: [...entry.voters.values()] });
+      } else {
+        reply(200, { ...source, poll: entry.poll });
+      }
+    }
+  });
+}
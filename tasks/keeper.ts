@@ -0,0 +1,158 @@
+/**
+ * Keeper for MetaVote: finalizes polls once they end, then publicly decrypts and publishes their results, so that no
+ * poll waits for someone to remember it. Each pass reads the state of every poll from the chain, so a pass can be
+ * repeated or interrupted at any point, and a step another account took first is logged as already done. Failed
+ * steps are retried with exponential backoff; every step ends up in a JSON action log.
+ */
+import * as fs from "fs";
+import { ZeroAddress } from "ethers";
+import type { ContractTransactionResponse } from "ethers";
+
+import type { MetaVote, MetaVoteLens } from "../types";
+
+/** Mirrors MetaVote.PollOutcome.InsufficientTurnout: such polls are finalized but never decrypted. */
+const INSUFFICIENT_TURNOUT = 5;
+
+export type KeeperAction = {
+  /** ISO time the step ended. */
+  at: string;
+  pollId: number;
+  step: "finalize" | "publish";
+  /** `already done` when another account finalized or published the poll first. */
+  status: "done" | "already done" | "failed";
+  attempts: number;
+  transactionHash?: string;
+  /** Error of the last attempt of a failed step. */
+  error?: string;
+};
+
+export type KeeperLog = {
+  chainId: string;
+  contract: string;
+  actions: KeeperAction[];
+};
+
+/** Public decryption of the handles of a finalized poll, with the KMS proof `publishResults` checks. */
+export type PublicDecrypt = (handles: string[]) => Promise<{ clearTallies: number[]; decryptionProof: string }>;
+
+export type KeeperOptions = {
+  /** Polls read per MetaVoteLens.getPolls call. */
+  pageSize?: number;
+  /** Attempts after the first one before a step is logged as failed. */
+  retries?: number;
+  /** Wait before the first retry, doubled for each further one. */
+  backoffMs?: number;
+  /** Called with each logged step, for example to save the log. */
+  onAction?: (action: KeeperAction) => void;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+/** Loads the action log of `contract` from `path`, or starts a new one. */
+export function loadKeeperLog(path: string, chainId: bigint, contract: string): KeeperLog {
+  if (!fs.existsSync(path)) {
+    return { chainId: chainId.toString(), contract, actions: [] };
+  }
+  const log = JSON.parse(fs.readFileSync(path, "utf8")) as KeeperLog;
+  if (log.chainId !== chainId.toString() || log.contract.toLowerCase() !== contract.toLowerCase()) {
+    throw new Error(`${path} logs ${log.contract} on chain ${log.chainId}; use another log`);
+  }
+  return log;
+}
+
+/** Writes through a temporary file, so that an interrupted save keeps the previous log. */
+export function saveKeeperLog(path: string, log: KeeperLog) {
+  fs.writeFileSync(`${path}.tmp`, JSON.stringify(log, null, 2));
+  fs.renameSync(`${path}.tmp`, path);
+}
+
+/** Name of the MetaVote custom error a failed call reverted with, if any. */
+function revertName(metaVote: MetaVote, error: unknown): string | undefined {
+  const data = (error as { data?: unknown }).data;
+  return typeof data === "string" ? metaVote.interface.parseError(data)?.name : undefined;
+}
+
+/**
+ * Runs one pass: finalizes every poll that has ended and publishes the results of every finalized poll, except
+ * cancelled polls and polls closed for insufficient turnout. Each step is appended to `log.actions`, and the steps of
+ * this pass are returned. A failed step is left for the next pass.
+ */
+export async function runKeeper(
+  metaVote: MetaVote,
+  lens: MetaVoteLens,
+  decrypt: PublicDecrypt,
+  log: KeeperLog,
+  {
+    pageSize = 50,
+    retries = 3,
+    backoffMs = 2000,
+    onAction,
+    sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  }: KeeperOptions = {},
+): Promise<KeeperAction[]> {
+  const actions: KeeperAction[] = [];
+
+  async function attempt(
+    pollId: number,
+    step: KeeperAction["step"],
+    alreadyDone: string,
+    send: () => Promise<ContractTransactionResponse>,
+  ): Promise<KeeperAction> {
+    for (let attempts = 1; ; attempts++) {
+      let action: KeeperAction | undefined;
+      try {
+        const tx = await send();
+        await tx.wait();
+        action = { at: new Date().toISOString(), pollId, step, status: "done", attempts, transactionHash: tx.hash };
+      } catch (error) {
+        if (revertName(metaVote, error) === alreadyDone) {
+          action = { at: new Date().toISOString(), pollId, step, status: "already done", attempts };
+        } else if (attempts > retries) {
+          const message = error instanceof Error ? error.message : String(error);
+          action = { at: new Date().toISOString(), pollId, step, status: "failed", attempts, error: message };
+        } else {
+          await sleep(backoffMs * 2 ** (attempts - 1));
+        }
+      }
+      if (action) {
+        log.actions.push(action);
+        actions.push(action);
+        onAction?.(action);
+        return action;
+      }
+    }
+  }
+
+  const provider = metaVote.runner!.provider!;
+  const now = BigInt((await provider.getBlock("latest"))!.timestamp);
+  for (let offset = 0; ; offset += pageSize) {
+    const page = await lens.getPolls(offset, pageSize, ZeroAddress);
+    for (const record of page) {
+      const pollId = Number(record.id);
+      if (record.cancelled || record.resultsPublished || (!record.finalized && now < record.endTime)) {
+        continue;
+      }
+      let outcome = record.outcome;
+      if (!record.finalized) {
+        const finalized = await attempt(pollId, "finalize", "PollAlreadyFinalized", () =>
+          metaVote.finalizePoll(pollId),
+        );
+        if (finalized.status === "failed") {
+          continue;
+        }
+        [outcome] = await metaVote.getPollOutcome(pollId);
+      }
+      if (Number(outcome) === INSUFFICIENT_TURNOUT) {
+        continue;
+      }
+      await attempt(pollId, "publish", "ResultsAlreadyPublished", async () => {
+        const handles = await metaVote.getDecryptionHandles(pollId);
+        const { clearTallies, decryptionProof } = await decrypt([...handles]);
+        return metaVote.publishResults(pollId, clearTallies, decryptionProof);
+      });
+    }
+    if (page.length < pageSize) {
+      break;
+    }
+  }
+  return actions;
+}
@@ -1,6 +1,346 @@
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import * as fs from "fs";
 import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import * as http from "http";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { createIndexServer, indexedBlock, loadIndex, saveIndex, syncIndex } from "./indexer";
+import { PublicDecrypt, loadKeeperLog, runKeeper, saveKeeperLog } from "./keeper";
+import { condorcetWinner, indexToRanking, instantRunoff, rankingToIndex } from "../shared/ranked";
+import {
+  KmsConfig,
+  RESULTS_FORMAT,
+  ResultsBundle,
+  buildResultsBundle,
+  readKmsConfig,
+  verifyResultsBundle,
+} from "./resultsBundle";
+import { SignedBallot, VOTE_TYPES, loadQueue, saveQueue, voteDomain } from "./signedBallots";
+
+type AllowlistTree = StandardMerkleTree<[string]>;
+
+// Mirrors MetaVote.PollKind.
+const PollKind = {
+  SingleChoice: 0,
+  Approval: 1,
+  Ranked: 2,
+  Score: 3,
+  Survey: 4,
+} as const;
+
+const kindLabels = ["single choice", "approval", "ranked", "score", "survey"];
+
+// Mirrors MetaVote.PollOutcome.
+const PollOutcome = {
+  Pending: 0,
+  Passed: 1,
+  FailedQuorum: 2,
+  Rejected: 3,
+  Tie: 4,
+  InsufficientTurnout: 5,
+} as const;
+
+const outcomeLabels = ["pending", "passed", "failed quorum", "rejected", "tie", "closed, insufficient turnout"];
+
+/** Mirrors MetaVote.MAX_OPTIONS and MetaVote.MAX_RANKED_OPTIONS. */
+const MAX_OPTIONS = 16;
+const MAX_RANKED_OPTIONS = 4;
+
+/** Mirrors MetaVote.MAX_QUESTIONS. */
+const MAX_QUESTIONS = 8;
+
+/** Mirrors MetaVote.MAX_COHORTS. */
+const MAX_COHORTS = 8;
+
+/** Mirrors MetaVote.MIN_EXECUTION_DELAY, in seconds. */
+const MIN_EXECUTION_DELAY = 86400;
+
+/** Mirrors MetaVote.ABSTAIN. Every poll ends its tallies with the abstain and invalid-ballot counters. */
+const ABSTAIN = 0xffffffff;
+const COUNTER_TALLIES = 2;
+
+function checkOptionCount(options: string[], kind: number) {
+  const max = kind === PollKind.Ranked ? MAX_RANKED_OPTIONS : MAX_OPTIONS;
+  if (options.length < 2 || options.length > max) {
+    throw new Error(`Provide between 2 and ${max} options${kind === PollKind.Ranked ? " for a ranked poll" : ""}`);
+  }
+}
+
+/** A creator who peeks sees the running tallies of a small poll before the minimum turnout can protect them. */
+function checkPeek(settings: { creatorCanPeek: boolean; minParticipants: number }) {
+  if (settings.creatorCanPeek && settings.minParticipants > 0) {
+    throw new Error("--peek does not combine with --min-participants, which it would get around");
+  }
+}
+
+function parseIndexes(value: string): number[] {
+  return value.split(",").map((s) => parseInt(s.trim(), 10));
+}
+
+/**
+ * Encodes the choice flags shared by `task:vote` and `task:sign-vote` into the values to encrypt. Surveys take one
+ * value per question, so `questionCount` is only used for them.
+ */
+function ballotValues(taskArguments: TaskArguments, kind: number, optionCount: number, questionCount = 0): number[] {
+  let values: number[];
+  if (taskArguments.abstain) {
+    if (kind === PollKind.Score) {
+      throw new Error("Score polls cannot abstain; give every option a score instead");
+    }
+    values = Array(kind === PollKind.Survey ? questionCount : 1).fill(ABSTAIN);
+  } else if (kind === PollKind.Survey) {
+    if (!taskArguments.answers) {
+      throw new Error("Surveys take --answers, one option index or 'abstain' per question, e.g. --answers 1,abstain,0");
+    }
+    values = (taskArguments.answers as string)
+      .split(",")
+      .map((answer) => (answer.trim() === "abstain" ? ABSTAIN : parseInt(answer.trim(), 10)));
+    if (values.length !== questionCount) {
+      throw new Error(`Provide one answer per question (${questionCount})`);
+    }
+  } else if (kind === PollKind.Approval) {
+    if (!taskArguments.choices) {
+      throw new Error("Approval polls take --choices, e.g. --choices 0,2");
+    }
+    values = [parseIndexes(taskArguments.choices as string).reduce((mask, index) => mask | (1 << index), 0)];
+  } else if (kind === PollKind.Ranked) {
+    if (!taskArguments.ranking) {
+      throw new Error("Ranked polls take --ranking, e.g. --ranking 2,0,1");
+    }
+    values = [rankingToIndex(parseIndexes(taskArguments.ranking as string), optionCount)];
+  } else if (kind === PollKind.Score) {
+    if (!taskArguments.scores) {
+      throw new Error("Score polls take --scores, e.g. --scores 7,10,3");
+    }
+    values = parseIndexes(taskArguments.scores as string);
+    if (values.length !== optionCount) {
+      throw new Error(`Provide one score per option (${optionCount})`);
+    }
+  } else {
+    if (taskArguments.choice === undefined) {
+      throw new Error("Provide the option index with --choice");
+    }
+    values = [parseInt(taskArguments.choice as string, 10)];
+  }
+  return values;
+}
+
+/** A survey question with its options and the index of its first tally. */
+type SurveyQuestion = { question: string; options: string[]; first: number };
+
+/**
+ * Splits the options of a survey by question. Each question owns its option tallies followed by its own abstain and
+ * invalid counters.
+ */
+function surveyQuestions(questions: string[], optionCounts: bigint[], options: string[]): SurveyQuestion[] {
+  let option = 0;
+  let first = 0;
+  return questions.map((question, index) => {
+    const size = Number(optionCounts[index]);
+    const entry = { question, options: options.slice(option, option + size), first };
+    option += size;
+    first += size + COUNTER_TALLIES;
+    return entry;
+  });
+}
+
+/** Prints the answers to each survey question from `tallies`, laid out as in `getEncryptedTallies`. */
+function printSurvey(survey: SurveyQuestion[], tallies: number[], indent = "") {
+  survey.forEach(({ question, options, first }) => {
+    const counts = options.map((option, index) => `${option} ${tallies[first + index]}`).join(", ");
+    const [abstained, invalid] = tallies.slice(first + options.length, first + options.length + COUNTER_TALLIES);
+    console.log(`${indent}${question}: ${counts}`);
+    console.log(`${indent}  abstained ${abstained}, invalid answers ${invalid}`);
+  });
+}
+
+/** Sums the ballots of a ranked poll, laid out as in `getEncryptedTallies`, by their most preferred option. */
+function firstPreferences(tallies: number[], optionCount: number): number[] {
+  const counts = new Array<number>(optionCount).fill(0);
+  tallies.slice(0, -COUNTER_TALLIES).forEach((count, index) => {
+    counts[indexToRanking(index, optionCount)[0]] += count;
+  });
+  return counts;
+}
+
+/**
+ * Prints the tallies of each cohort, which follow the poll tallies in the published results. Ranked polls show the
+ * first preferences of each cohort, surveys the answers to each question. Cohorts with fewer voters than the
+ * minimum turnout were revealed as zeros, and are listed without their tallies.
+ */
+function printCohorts(
+  labels: string[],
+  voterCounts: number[],
+  minParticipants: number,
+  results: number[],
+  tallyCount: number,
+  kind: number,
+  options: string[],
+  survey: SurveyQuestion[],
+) {
+  labels.forEach((label, cohort) => {
+    if (voterCounts[cohort] < minParticipants) {
+      console.log(`  ${label}: ${voterCounts[cohort]} of ${minParticipants} voters, tallies withheld`);
+      return;
+    }
+    const tallies = results.slice(tallyCount * (cohort + 1), tallyCount * (cohort + 2));
+    if (kind === PollKind.Survey) {
+      console.log(`  ${label}:`);
+      printSurvey(survey, tallies, "    ");
+      return;
+    }
+    const counts = kind === PollKind.Ranked ? firstPreferences(tallies, options.length) : tallies;
+    const [abstained, invalid] = tallies.slice(-COUNTER_TALLIES);
+    const unit = kind === PollKind.Score ? " (score sums)" : kind === PollKind.Ranked ? " (first preferences)" : "";
+    console.log(`  ${label}${unit}: ${options.map((option, index) => `${option} ${counts[index]}`).join(", ")}`);
+    console.log(`    abstained ${abstained}, invalid ballots ${invalid}`);
+  });
+}
+
+/** Quotes a CSV field that holds a comma, a quote or a line break. */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Summarizes a results bundle as CSV: one row per tally, laid out as in `getEncryptedTallies`, with a column for all
+ * voters and one per cohort. Ranked polls list every ordering, surveys prefix each answer with its question, and
+ * winner-only polls have a row for the winner and one for the tie flag.
+ */
+function resultsCsv({ poll, tallyCount, clearTallies }: ResultsBundle): string {
+  let rows: (string | number)[][];
+  if (poll.settings.revealWinnerOnly) {
+    const [winner, tie] = clearTallies;
+    rows = [
+      ["Winner", tie ? "" : poll.options[winner]],
+      ["Tie", tie ? "yes" : "no"],
+    ];
+  } else {
+    let labels: string[];
+    if (poll.kind === PollKind.Survey) {
+      const optionCounts = poll.questionSizes.map(BigInt);
+      labels = surveyQuestions(poll.questions, optionCounts, poll.options).flatMap(({ question, options }) =>
+        [...options, "Abstain", "Invalid"].map((label) => `${question}: ${label}`),
+      );
+    } else {
+      labels =
+        poll.kind === PollKind.Ranked
+          ? Array.from({ length: tallyCount - COUNTER_TALLIES }, (_, index) =>
+              indexToRanking(index, poll.options.length)
+                .map((option) => poll.options[option])
+                .join(" > "),
+            )
+          : [...poll.options];
+      if (poll.kind === PollKind.Approval || poll.kind === PollKind.Score) {
+        labels.push("Ballots");
+      }
+      labels.push("Abstain", "Invalid");
+    }
+    rows = labels.map((label, index) => [
+      label,
+      ...[-1, ...poll.cohorts.keys()].map((cohort) => clearTallies[tallyCount * (cohort + 1) + index]),
+    ]);
+  }
+  const header = ["tally", "all voters", ...(poll.settings.revealWinnerOnly ? [] : poll.cohorts)];
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Picks the membership token a voter votes with in an NFT-gated poll: the `requested` id if given, else the token the
+ * voter already voted with, else the first token they own that has not voted. Listing owned tokens needs the
+ * ERC721Enumerable extension.
+ */
+async function pickMembershipToken(
+  hre: HardhatRuntimeEnvironment,
+  metaVoteAddress: string,
+  pollId: number,
+  voter: string,
+  requested?: string,
+): Promise<bigint> {
+  if (requested !== undefined) {
+    return BigInt(requested);
+  }
+  const contract = await hre.ethers.getContractAt("MetaVote", metaVoteAddress);
+  const { membershipToken } = await contract.getPollSettings(pollId);
+  const nft = await hre.ethers.getContractAt("IERC721Enumerable", membershipToken);
+
+  let unused: bigint | undefined;
+  const balance = await nft.balanceOf(voter);
+  for (let index = 0n; index < balance; index++) {
+    const tokenId = await nft.tokenOfOwnerByIndex(voter, index);
+    const tokenVoter = await contract.getTokenVoter(pollId, tokenId);
+    if (tokenVoter === voter) {
+      return tokenId;
+    }
+    if (tokenVoter === hre.ethers.ZeroAddress && unused === undefined) {
+      unused = tokenId;
+    }
+  }
+  if (unused === undefined || (await contract.hasUserVoted(pollId, voter))) {
+    throw new Error(`${voter} holds no membership token of ${membershipToken} that can vote in poll ${pollId}`);
+  }
+  return unused;
+}
+
+/** One entry per option of an actions file: raw calldata, a function signature with its arguments, or no action. */
+type ActionSpec = { target: string; data?: string; signature?: string; args?: unknown[] } | null;
+
+/**
+ * Reads the actions of a proposal from a JSON file with one entry per option, for instance
+ * `[{ "target": "0x...", "signature": "setValue(uint256)", "args": [42] }, null]`.
+ */
+function loadActions(hre: HardhatRuntimeEnvironment, path: string): { target: string; data: string }[] {
+  const { ethers } = hre;
+  const specs = JSON.parse(fs.readFileSync(path, "utf8")) as ActionSpec[];
+  return specs.map((spec, option) => {
+    if (spec === null) {
+      return { target: ethers.ZeroAddress, data: "0x" };
+    }
+    if (!ethers.isAddress(spec.target)) {
+      throw new Error(`Action of option ${option} has no valid target address`);
+    }
+    if (spec.signature !== undefined) {
+      const fragment = ethers.FunctionFragment.from(`function ${spec.signature}`);
+      const data = new ethers.Interface([fragment]).encodeFunctionData(fragment, spec.args ?? []);
+      return { target: spec.target, data };
+    }
+    return { target: spec.target, data: spec.data ?? "0x" };
+  });
+}
+
+function loadAllowlist(path: string): AllowlistTree {
+  return StandardMerkleTree.load(JSON.parse(fs.readFileSync(path, "utf8")));
+}
+
+function findAllowlistProof(tree: AllowlistTree, voter: string): string[] | undefined {
+  for (const [index, [address]] of tree.entries()) {
+    if (address.toLowerCase() === voter.toLowerCase()) {
+      return tree.getProof(index);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * MetaVoteLens of the MetaVote deployment (or of the `--address` override), which reads whole poll records in one call.
+ * A `--lens` override must be bound to that same MetaVote.
+ */
+async function getLens(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  const { ethers, deployments } = hre;
+  const metaVoteAddress = taskArguments.address
+    ? (taskArguments.address as string)
+    : (await deployments.get("MetaVote")).address;
+  const lensAddress = taskArguments.lens
+    ? (taskArguments.lens as string)
+    : (await deployments.get("MetaVoteLens")).address;
+  const lens = await ethers.getContractAt("MetaVoteLens", lensAddress);
+  if ((await lens.META_VOTE()).toLowerCase() !== metaVoteAddress.toLowerCase()) {
+    throw new Error(`MetaVoteLens ${lensAddress} does not read MetaVote ${metaVoteAddress}; pass its --lens`);
+  }
+  return lens;
+}
 
 task("task:address", "Prints the MetaVote address").setAction(async function (_taskArguments: TaskArguments, hre) {
   const deployment = await hre.deployments.get("MetaVote");
@@ -9,9 +349,20 @@ task("task:address", "Prints the MetaVote address").setAction(async function (_t
 
 task("task:create-poll", "Creates a new poll")
   .addParam("title", "Poll title")
-  .addParam("options", "Comma separated options (2-4)")
+  .addParam("options", "Comma separated options (2-16, ranked polls 2-4)")
   .addParam("start", "Start timestamp (seconds)")
   .addParam("end", "End timestamp (seconds)")
+  .addOptionalParam("root", "Eligibility Merkle root from task:build-allowlist (omit for an open poll)")
+  .addOptionalParam("weighted", "Confidential token whose snapshot balances weight each vote")
+  .addFlag("approval", "Approval poll: voters may select any subset of the options")
+  .addFlag("ranked", "Ranked poll: voters order every option, results support instant runoff")
+  .addFlag("score", "Score poll: voters rate every option from 0 to 10")
+  .addOptionalParam("quorum", "Minimum votes cast (total weight in weighted polls)", "0")
+  .addOptionalParam("threshold", "Percent of the votes cast the leading option must exceed, e.g. 50 or 66.67", "0")
+  .addFlag("peek", "Let the creator decrypt the running tallies while voting (shown to voters)")
+  .addOptionalParam("minParticipants", "Fewest voters needed before the tallies can be revealed", "0")
+  .addFlag("winnerOnly", "Reveal only the winning option (or a tie), never the counts")
+  .addOptionalParam("membership", "ERC-721 whose holders vote, one ballot per token")
   .addOptionalParam("address", "Override MetaVote address")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
@@ -22,25 +373,297 @@ task("task:create-poll", "Creates a new poll")
     const options = (taskArguments.options as string).split(",").map((s) => s.trim());
     const startTime = BigInt(taskArguments.start);
     const endTime = BigInt(taskArguments.end);
-
-    if (options.length < 2 || options.length > 4) {
-      throw new Error("Provide between 2 and 4 options");
+    const kindFlags = [taskArguments.approval, taskArguments.ranked, taskArguments.score].filter(Boolean);
+    if (kindFlags.length > 1) {
+      throw new Error("Pick at most one of --approval, --ranked and --score");
+    }
+    const settings = {
+      kind: taskArguments.approval
+        ? PollKind.Approval
+        : taskArguments.ranked
+          ? PollKind.Ranked
+          : taskArguments.score
+            ? PollKind.Score
+            : PollKind.SingleChoice,
+      eligibilityRoot: (taskArguments.root as string | undefined) ?? ethers.ZeroHash,
+      weightToken: (taskArguments.weighted as string | undefined) ?? ethers.ZeroAddress,
+      quorum: parseInt(taskArguments.quorum as string, 10),
+      thresholdBps: Math.round(parseFloat(taskArguments.threshold as string) * 100),
+      creatorCanPeek: Boolean(taskArguments.peek),
+      minParticipants: parseInt(taskArguments.minParticipants as string, 10),
+      revealWinnerOnly: Boolean(taskArguments.winnerOnly),
+      membershipToken: (taskArguments.membership as string | undefined) ?? ethers.ZeroAddress,
+    };
+    if (settings.revealWinnerOnly && (settings.kind === PollKind.Ranked || settings.quorum || settings.thresholdBps)) {
+      throw new Error("--winner-only does not combine with --ranked, --quorum or --threshold, which need the counts");
     }
+    if (settings.revealWinnerOnly && settings.creatorCanPeek) {
+      throw new Error("--winner-only does not combine with --peek, which would show the creator the counts");
+    }
+    checkPeek(settings);
+
+    checkOptionCount(options, settings.kind);
 
     const [signer] = await ethers.getSigners();
     const contract = await ethers.getContractAt("MetaVote", deployment.address);
 
     const tx = await contract
       .connect(signer)
-      .createPoll(taskArguments.title, options, startTime, endTime);
+      .createPoll(taskArguments.title, options, startTime, endTime, settings);
     console.log(`Creating poll... tx=${tx.hash}`);
     await tx.wait();
     console.log("Poll created");
   });
 
+task("task:create-survey", "Creates a survey of several single-choice questions answered with one encrypted input")
+  .addParam("title", "Survey title")
+  .addParam(
+    "questions",
+    `JSON file with 1-${MAX_QUESTIONS} questions of at least 2 options, ${MAX_OPTIONS} options in total, e.g. ` +
+      '[{ "question": "Editor", "options": ["Vim", "Emacs"] }]',
+  )
+  .addParam("start", "Start timestamp (seconds)")
+  .addParam("end", "End timestamp (seconds)")
+  .addOptionalParam("root", "Eligibility Merkle root from task:build-allowlist (omit for an open survey)")
+  .addOptionalParam("weighted", "Confidential token whose snapshot balances weight each answer")
+  .addFlag("peek", "Let the creator decrypt the running tallies while voting (shown to voters)")
+  .addOptionalParam("minParticipants", "Fewest voters needed before the tallies can be revealed", "0")
+  .addOptionalParam("membership", "ERC-721 whose holders answer, one ballot per token")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const entries = JSON.parse(fs.readFileSync(taskArguments.questions as string, "utf8")) as {
+      question: string;
+      options: string[];
+    }[];
+    const options = entries.flatMap((entry) => entry.options);
+    if (entries.length === 0 || entries.length > MAX_QUESTIONS) {
+      throw new Error(`Provide between 1 and ${MAX_QUESTIONS} questions`);
+    }
+    if (entries.some((entry) => entry.options.length < 2) || options.length > MAX_OPTIONS) {
+      throw new Error(`Give every question at least 2 options, and at most ${MAX_OPTIONS} options in total`);
+    }
+    const settings = {
+      kind: PollKind.Survey,
+      eligibilityRoot: (taskArguments.root as string | undefined) ?? ethers.ZeroHash,
+      weightToken: (taskArguments.weighted as string | undefined) ?? ethers.ZeroAddress,
+      quorum: 0,
+      thresholdBps: 0,
+      creatorCanPeek: Boolean(taskArguments.peek),
+      minParticipants: parseInt(taskArguments.minParticipants as string, 10),
+      revealWinnerOnly: false,
+      membershipToken: (taskArguments.membership as string | undefined) ?? ethers.ZeroAddress,
+    };
+    checkPeek(settings);
+
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const tx = await contract.connect(signer).createSurvey(
+      taskArguments.title,
+      entries.map((entry) => entry.question),
+      entries.map((entry) => entry.options.length),
+      options,
+      BigInt(taskArguments.start),
+      BigInt(taskArguments.end),
+      settings,
+    );
+    console.log(`Creating survey... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Survey created");
+  });
+
+task("task:edit-poll", "Change the title and options of a poll before it starts (creator only)")
+  .addParam("poll", "Poll id")
+  .addParam("title", "New poll title")
+  .addParam("options", "New comma separated options (2-16, ranked polls 2-4, surveys relabel every option in order)")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const options = (taskArguments.options as string).split(",").map((s) => s.trim());
+
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+    const settings = await contract.getPollSettings(pollId);
+    checkOptionCount(options, Number(settings.kind));
+
+    const tx = await contract.connect(signer).editPoll(pollId, taskArguments.title, options);
+    console.log(`Editing poll... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Poll edited");
+  });
+
+task("task:extend-poll", "Move the end of a poll that has not ended yet (creator only)")
+  .addParam("poll", "Poll id")
+  .addParam("end", "New end timestamp (seconds)")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const tx = await contract.connect(signer).extendPoll(pollId, BigInt(taskArguments.end));
+    console.log(`Extending poll... tx=${tx.hash}`);
+    await tx.wait();
+    console.log(`Poll now ends at ${taskArguments.end}`);
+  });
+
+task("task:cancel-poll", "Cancel a poll that has not been finalized (creator only)")
+  .addParam("poll", "Poll id")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const tx = await contract.connect(signer).cancelPoll(pollId);
+    console.log(`Cancelling poll... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Poll cancelled");
+  });
+
+task("task:define-cohorts", "Split the tallies of a poll by cohort before anyone votes (creator only)")
+  .addParam("poll", "Poll id")
+  .addParam("labels", `Comma separated cohort labels (1-${MAX_COHORTS}), e.g. Staff,Students`)
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const labels = (taskArguments.labels as string).split(",").map((s) => s.trim());
+    if (labels.length === 0 || labels.length > MAX_COHORTS) {
+      throw new Error(`Provide between 1 and ${MAX_COHORTS} cohort labels`);
+    }
+
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const tx = await contract.connect(signer).defineCohorts(pollId, labels);
+    console.log(`Defining cohorts... tx=${tx.hash}`);
+    await tx.wait();
+    console.log(`Poll ${pollId} cohorts: ${labels.join(", ")}`);
+  });
+
+task("task:set-actions", "Attach the call each option runs if it wins, making the poll a proposal (creator only)")
+  .addParam("poll", "Poll id")
+  .addParam("actions", "JSON file with one action per option: {target, signature, args}, {target, data} or null")
+  .addOptionalParam("delay", "Seconds between publication of a passed outcome and execution", `${MIN_EXECUTION_DELAY}`)
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const delay = parseInt(taskArguments.delay as string, 10);
+    if (!Number.isInteger(delay) || delay < MIN_EXECUTION_DELAY) {
+      throw new Error(`The delay must be at least ${MIN_EXECUTION_DELAY} seconds`);
+    }
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const options = await contract.getPollOptions(pollId);
+    const actions = loadActions(hre, taskArguments.actions as string);
+    if (actions.length !== options.length) {
+      throw new Error(`Poll ${pollId} has ${options.length} options but the file lists ${actions.length} actions`);
+    }
+
+    const tx = await contract.connect(signer).setActions(pollId, actions, delay);
+    console.log(`Setting proposal actions... tx=${tx.hash}`);
+    await tx.wait();
+    actions.forEach((action, index) => {
+      const summary = action.target === ethers.ZeroAddress ? "no action" : `${action.target} ${action.data}`;
+      console.log(`  ${options[index]}: ${summary}`);
+    });
+    console.log(`Executable ${delay} seconds after a passed outcome is published`);
+  });
+
+task("task:assign-cohorts", "Place voters in the cohorts of a poll from a CSV of address,cohort (creator only)")
+  .addParam("poll", "Poll id")
+  .addParam("csv", "CSV file with a voter address and a cohort label per line (task:build-allowlist reads it too)")
+  .addOptionalParam("batch", "Voters assigned per transaction", "200")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+    const [labels] = await contract.getCohorts(pollId);
+    if (labels.length === 0) {
+      throw new Error(`Poll ${pollId} has no cohorts; run task:define-cohorts first`);
+    }
+
+    const assignments = new Map<string, number>();
+    for (const line of fs.readFileSync(taskArguments.csv as string, "utf8").split(/\r?\n/)) {
+      const [address, label] = line.split(",").map((cell) => cell.trim());
+      if (!ethers.isAddress(address)) {
+        continue;
+      }
+      const cohort = labels.indexOf(label ?? "");
+      if (cohort < 0) {
+        throw new Error(`Unknown cohort "${label ?? ""}" for ${address}; the poll has ${labels.join(", ")}`);
+      }
+      assignments.set(ethers.getAddress(address), cohort);
+    }
+    if (assignments.size === 0) {
+      throw new Error("No addresses found in the CSV file");
+    }
+
+    const entries = [...assignments];
+    const batch = parseInt(taskArguments.batch as string, 10);
+    for (let i = 0; i < entries.length; i += batch) {
+      const chunk = entries.slice(i, i + batch);
+      const tx = await contract.connect(signer).assignCohorts(
+        pollId,
+        chunk.map(([address]) => address),
+        chunk.map(([, cohort]) => cohort),
+      );
+      console.log(`Assigning ${chunk.length} voters... tx=${tx.hash}`);
+      await tx.wait();
+    }
+    labels.forEach((label, cohort) => {
+      const count = entries.filter(([, assigned]) => assigned === cohort).length;
+      console.log(`${label}: ${count} voters`);
+    });
+  });
+
 task("task:vote", "Cast an encrypted vote")
   .addParam("poll", "Poll id")
-  .addParam("choice", "Option index (0-based)")
+  .addOptionalParam("choice", "Option index (0-based)")
+  .addOptionalParam("choices", "Comma separated option indexes for approval polls, e.g. 0,2")
+  .addOptionalParam("ranking", "Every option index from most to least preferred for ranked polls, e.g. 2,0,1")
+  .addOptionalParam("scores", "One score from 0 to 10 per option for score polls, e.g. 7,10,3")
+  .addOptionalParam("answers", "One option index within each question, or abstain, for surveys, e.g. 1,abstain,0")
+  .addFlag("abstain", "Abstain instead of choosing (on every question of a survey; not available in score polls)")
+  .addOptionalParam("proof", "Allowlist file from task:build-allowlist (required for gated polls)")
+  .addOptionalParam("token", "Membership token id to vote with in NFT-gated polls (picked automatically if omitted)")
   .addOptionalParam("address", "Override MetaVote address")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments, fhevm } = hre;
@@ -49,22 +672,755 @@ task("task:vote", "Cast an encrypted vote")
       : await deployments.get("MetaVote");
 
     const pollId = parseInt(taskArguments.poll as string, 10);
-    const choice = parseInt(taskArguments.choice as string, 10);
 
     const [signer] = await ethers.getSigners();
     const contract = await ethers.getContractAt("MetaVote", deployment.address);
 
-    const encryptedChoice = await fhevm
-      .createEncryptedInput(deployment.address, signer.address)
-      .add32(choice)
-      .encrypt();
+    const { kind, membershipToken } = await contract.getPollSettings(pollId);
+    const optionCount = (await contract.getPollOptions(pollId)).length;
+    const [questions] = await contract.getQuestions(pollId);
+    const values = ballotValues(taskArguments, Number(kind), optionCount, questions.length);
+    const tokenId =
+      membershipToken === ethers.ZeroAddress
+        ? undefined
+        : await pickMembershipToken(hre, deployment.address, pollId, signer.address, taskArguments.token as string);
 
-    const tx = await contract
-      .connect(signer)
-      .castVote(pollId, encryptedChoice.handles[0], encryptedChoice.inputProof);
-    console.log(`Casting vote... tx=${tx.hash}`);
+    let eligibilityProof: string[] = [];
+    if (taskArguments.proof) {
+      const proof = findAllowlistProof(loadAllowlist(taskArguments.proof as string), signer.address);
+      if (!proof) {
+        throw new Error(`${signer.address} is not in the allowlist`);
+      }
+      eligibilityProof = proof;
+    }
+
+    const input = fhevm.createEncryptedInput(deployment.address, signer.address);
+    values.forEach((value) => input.add32(value));
+    const encryptedBallot = await input.encrypt();
+
+    const revote = await contract.hasUserVoted(pollId, signer.address);
+    const { handles, inputProof } = encryptedBallot;
+    const voter = contract.connect(signer);
+    let tx;
+    if (tokenId === undefined) {
+      if (Number(kind) === PollKind.Score) {
+        tx = await voter.castScores(pollId, handles, inputProof, eligibilityProof);
+      } else if (Number(kind) === PollKind.Survey) {
+        tx = await voter.castAnswers(pollId, handles, inputProof, eligibilityProof);
+      } else {
+        tx = await voter.castVote(pollId, handles[0], inputProof, eligibilityProof);
+      }
+    } else if (Number(kind) === PollKind.Score) {
+      tx = await voter.castScoresWithToken(pollId, tokenId, handles, inputProof, eligibilityProof);
+    } else if (Number(kind) === PollKind.Survey) {
+      tx = await voter.castAnswersWithToken(pollId, tokenId, handles, inputProof, eligibilityProof);
+    } else {
+      tx = await voter.castVoteWithToken(pollId, tokenId, handles[0], inputProof, eligibilityProof);
+    }
+    console.log(`Casting vote${tokenId === undefined ? "" : ` with membership token ${tokenId}`}... tx=${tx.hash}`);
+    await tx.wait();
+    console.log(revote ? "Vote replaced (only the latest ballot counts)" : "Vote submitted");
+  });
+
+task("task:sign-vote", "Sign a ballot for a relayer to submit, so that the signer pays no gas")
+  .addParam("poll", "Poll id")
+  .addParam("relayer", "Address of the account that will submit the ballot (the choice is encrypted for it)")
+  .addOptionalParam("choice", "Option index (0-based)")
+  .addOptionalParam("choices", "Comma separated option indexes for approval polls, e.g. 0,2")
+  .addOptionalParam("ranking", "Every option index from most to least preferred for ranked polls, e.g. 2,0,1")
+  .addFlag("abstain", "Abstain instead of choosing")
+  .addOptionalParam("ttl", "Seconds the signature stays valid", "3600")
+  .addOptionalParam("queue", "Queue file the signed ballot is appended to", "signed-ballots.json")
+  .addOptionalParam("proof", "Allowlist file from task:build-allowlist (required for gated polls)")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const relayer = ethers.getAddress(taskArguments.relayer as string);
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const { kind, membershipToken } = await contract.getPollSettings(pollId);
+    if (Number(kind) === PollKind.Score || Number(kind) === PollKind.Survey) {
+      const polls = Number(kind) === PollKind.Score ? "Score polls" : "Surveys";
+      throw new Error(`${polls} cannot be voted by signature; use task:vote`);
+    }
+    if (membershipToken !== ethers.ZeroAddress) {
+      throw new Error("NFT-gated polls cannot be voted by signature; use task:vote");
+    }
+    const optionCount = (await contract.getPollOptions(pollId)).length;
+    const [value] = ballotValues(taskArguments, Number(kind), optionCount);
+
+    let eligibilityProof: string[] = [];
+    if (taskArguments.proof) {
+      const proof = findAllowlistProof(loadAllowlist(taskArguments.proof as string), signer.address);
+      if (!proof) {
+        throw new Error(`${signer.address} is not in the allowlist`);
+      }
+      eligibilityProof = proof;
+    }
+
+    const encryptedChoice = await fhevm.createEncryptedInput(deployment.address, relayer).add32(value).encrypt();
+    const encryptedHandle = ethers.hexlify(encryptedChoice.handles[0]);
+    const inputProof = ethers.hexlify(encryptedChoice.inputProof);
+    const nonce = await contract.nonces(signer.address);
+    const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + parseInt(taskArguments.ttl as string, 10);
+    const { chainId } = await ethers.provider.getNetwork();
+    const signature = await signer.signTypedData(voteDomain(chainId, deployment.address), VOTE_TYPES, {
+      pollId,
+      encryptedChoice: encryptedHandle,
+      inputProofHash: ethers.keccak256(inputProof),
+      nonce,
+      deadline,
+    });
+
+    // A newer signature uses the same nonce, so it replaces any ballot of the signer still waiting in the queue.
+    const queuePath = taskArguments.queue as string;
+    const queue = loadQueue(queuePath).filter(
+      (entry) => entry.txHash || entry.error || entry.voter.toLowerCase() !== signer.address.toLowerCase(),
+    );
+    queue.push({
+      pollId,
+      voter: signer.address,
+      relayer,
+      encryptedChoice: encryptedHandle,
+      inputProof,
+      eligibilityProof,
+      nonce: nonce.toString(),
+      deadline,
+      signature,
+    });
+    saveQueue(queuePath, queue);
+    console.log(`Signed ballot of ${signer.address} for poll ${pollId} added to ${queuePath}`);
+  });
+
+task("task:relay-votes", "Submit the signed ballots waiting in a queue file, paying their gas")
+  .addOptionalParam("queue", "Queue file written by task:sign-vote or task:relay-server", "signed-ballots.json")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const queuePath = taskArguments.queue as string;
+    const queue = loadQueue(queuePath);
+    const pending = queue.filter((entry) => !entry.txHash && !entry.error);
+    if (pending.length === 0) {
+      console.log(`No ballots waiting in ${queuePath}`);
+      return;
+    }
+
+    let relayed = 0;
+    for (const entry of pending) {
+      const label = `Ballot of ${entry.voter} for poll ${entry.pollId}`;
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      if (entry.relayer.toLowerCase() !== signer.address.toLowerCase()) {
+        entry.error = `encrypted for relayer ${entry.relayer}, not ${signer.address}`;
+      } else if (now >= entry.deadline) {
+        entry.error = "signature expired";
+      } else {
+        try {
+          const tx = await contract
+            .connect(signer)
+            .castVoteBySig(
+              entry.pollId,
+              entry.voter,
+              entry.encryptedChoice,
+              entry.inputProof,
+              entry.eligibilityProof,
+              entry.deadline,
+              entry.signature,
+            );
+          console.log(`${label}... tx=${tx.hash}`);
+          await tx.wait();
+          entry.txHash = tx.hash;
+          relayed++;
+        } catch (error) {
+          entry.error = error instanceof Error ? error.message : String(error);
+        }
+      }
+      if (entry.error) {
+        console.log(`${label} skipped: ${entry.error}`);
+      }
+      saveQueue(queuePath, queue);
+    }
+    console.log(`Relayed ${relayed} of ${pending.length} ballots; results recorded in ${queuePath}`);
+  });
+
+task("task:relay-server", "Local relayer endpoint: queues ballots signed in the VoteApp for task:relay-votes")
+  .addOptionalParam("port", "Port to listen on", "8787")
+  .addOptionalParam("queue", "Queue file the signed ballots are appended to", "signed-ballots.json")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const [signer] = await ethers.getSigners();
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = voteDomain(chainId, deployment.address);
+    const queuePath = taskArguments.queue as string;
+
+    // Checks what can be checked without a transaction; the contract verifies the rest when the ballot is relayed.
+    function acceptBallot(ballot: SignedBallot) {
+      if (ballot.relayer?.toLowerCase() !== signer.address.toLowerCase()) {
+        throw new Error(`Encrypt the choice for the relayer address ${signer.address}`);
+      }
+      const recovered = ethers.verifyTypedData(
+        domain,
+        VOTE_TYPES,
+        {
+          pollId: ballot.pollId,
+          encryptedChoice: ballot.encryptedChoice,
+          inputProofHash: ethers.keccak256(ballot.inputProof),
+          nonce: ballot.nonce,
+          deadline: ballot.deadline,
+        },
+        ballot.signature,
+      );
+      if (recovered.toLowerCase() !== ballot.voter?.toLowerCase()) {
+        throw new Error("The signature does not match the voter");
+      }
+      const queue = loadQueue(queuePath).filter(
+        (entry) => entry.txHash || entry.error || entry.voter.toLowerCase() !== recovered.toLowerCase(),
+      );
+      queue.push({
+        pollId: ballot.pollId,
+        voter: recovered,
+        relayer: signer.address,
+        encryptedChoice: ballot.encryptedChoice,
+        inputProof: ballot.inputProof,
+        eligibilityProof: ballot.eligibilityProof ?? [],
+        nonce: ballot.nonce,
+        deadline: ballot.deadline,
+        signature: ballot.signature,
+      });
+      saveQueue(queuePath, queue);
+      console.log(`Queued ballot of ${recovered} for poll ${ballot.pollId}`);
+    }
+
+    const server = http.createServer((request, response) => {
+      const reply = (status: number, body: object) => {
+        response.writeHead(status, {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+          "Access-Control-Allow-Headers": "Content-Type",
+        });
+        response.end(JSON.stringify(body));
+      };
+
+      if (request.method === "OPTIONS") {
+        reply(204, {});
+      } else if (request.method === "GET" && request.url === "/relayer") {
+        reply(200, { relayer: signer.address, chainId: chainId.toString(), contract: deployment.address });
+      } else if (request.method === "POST" && request.url === "/ballots") {
+        let body = "";
+        request.on("data", (chunk) => (body += chunk));
+        request.on("end", () => {
+          try {
+            acceptBallot(JSON.parse(body) as SignedBallot);
+            reply(202, { queued: true });
+          } catch (error) {
+            reply(400, { error: error instanceof Error ? error.message : String(error) });
+          }
+        });
+      } else {
+        reply(404, { error: "Not found" });
+      }
+    });
+
+    const port = parseInt(taskArguments.port as string, 10);
+    server.listen(port, () => {
+      console.log(`Relayer ${signer.address} queueing signed ballots to ${queuePath}`);
+      console.log(`VoteApp relayer endpoint: http://localhost:${port} (stop with Ctrl+C)`);
+    });
+    await new Promise<void>((resolve) => server.on("close", resolve));
+  });
+
+task("task:indexer", "Index the poll events into a JSON store and serve them over HTTP for the VoteApp")
+  .addOptionalParam("port", "Port to listen on", "8788")
+  .addOptionalParam("store", "JSON file holding the indexed events and the checkpoint", "metavote-index.json")
+  .addOptionalParam("fromBlock", "First block a new index scans (defaults to the MetaVote deployment block)")
+  .addOptionalParam("interval", "Seconds between syncs", "5")
+  .addOptionalParam("confirmations", "Blocks to stay behind the chain head", "0")
+  .addFlag("once", "Sync once and exit instead of serving")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string, receipt: undefined }
+      : await deployments.get("MetaVote");
+
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+    const { chainId } = await ethers.provider.getNetwork();
+    const storePath = taskArguments.store as string;
+    const fromBlock =
+      taskArguments.fromBlock !== undefined
+        ? parseInt(taskArguments.fromBlock as string, 10)
+        : (deployment.receipt?.blockNumber ?? 0);
+    const state = loadIndex(storePath, chainId, deployment.address, fromBlock);
+    const confirmations = parseInt(taskArguments.confirmations as string, 10);
+
+    async function sync() {
+      const { added, removed } = await syncIndex(ethers.provider, contract.interface, state, { confirmations });
+      saveIndex(storePath, state);
+      if (added > 0 || removed > 0) {
+        const dropped = removed > 0 ? `, ${removed} dropped after a reorg` : "";
+        console.log(`Indexed up to block ${indexedBlock(state)}: ${added} new event(s)${dropped}`);
+      }
+    }
+
+    await sync();
+    console.log(`Index of ${deployment.address} at block ${indexedBlock(state)} in ${storePath}`);
+    if (taskArguments.once) {
+      return;
+    }
+
+    // Syncs one after the other, so that a slow RPC never runs two at once.
+    const interval = parseInt(taskArguments.interval as string, 10) * 1000;
+    let timer = setTimeout(function tick() {
+      sync()
+        .catch((error) => console.error("Sync failed, retrying:", error instanceof Error ? error.message : error))
+        .finally(() => (timer = setTimeout(tick, interval)));
+    }, interval);
+
+    const server = createIndexServer(() => state);
+    const port = parseInt(taskArguments.port as string, 10);
+    server.listen(port, () => {
+      console.log(`VoteApp indexer endpoint: http://localhost:${port} (stop with Ctrl+C)`);
+      console.log("Routes: GET /polls, /polls/:id, /polls/:id/voters");
+    });
+    await new Promise<void>((resolve) => server.on("close", resolve));
+    clearTimeout(timer);
+  });
+
+task("task:keeper", "Finalize polls as they end and publish their results, retrying failed steps with backoff")
+  .addOptionalParam("interval", "Seconds between passes", "60")
+  .addOptionalParam("log", "JSON file the keeper logs its actions to", "keeper-log.json")
+  .addOptionalParam("retries", "Retries of a failed step before it is left for the next pass", "3")
+  .addOptionalParam("backoff", "Seconds before the first retry, doubled for each further one", "2")
+  .addFlag("once", "Run one pass and exit")
+  .addOptionalParam("address", "Override MetaVote address")
+  .addOptionalParam("lens", "Override MetaVoteLens address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const lens = await getLens(hre, taskArguments);
+    const metaVote = await ethers.getContractAt("MetaVote", await lens.META_VOTE());
+    const { chainId } = await ethers.provider.getNetwork();
+    const logPath = taskArguments.log as string;
+    const log = loadKeeperLog(logPath, chainId, await metaVote.getAddress());
+
+    const decrypt: PublicDecrypt = async (handles) => {
+      const decrypted = await fhevm.publicDecrypt(handles);
+      return {
+        clearTallies: handles.map((handle) => Number(decrypted.clearValues[handle as `0x${string}`])),
+        decryptionProof: decrypted.decryptionProof,
+      };
+    };
+    const pass = () =>
+      runKeeper(metaVote, lens, decrypt, log, {
+        retries: parseInt(taskArguments.retries as string, 10),
+        backoffMs: parseFloat(taskArguments.backoff as string) * 1000,
+        onAction: (action) => {
+          saveKeeperLog(logPath, log);
+          const detail = action.error ?? action.transactionHash ?? "";
+          console.log(
+            `Poll ${action.pollId}: ${action.step} ${action.status}, ${action.attempts} attempt(s) ${detail}`,
+          );
+        },
+      });
+
+    const actions = await pass();
+    console.log(`Pass done: ${actions.length} step(s), log in ${logPath}`);
+    if (taskArguments.once) {
+      return;
+    }
+
+    // Passes run one after the other, so that a slow relayer never has two publish the same poll.
+    const interval = parseInt(taskArguments.interval as string, 10) * 1000;
+    console.log(`Keeper of ${await metaVote.getAddress()} running every ${interval / 1000}s (stop with Ctrl+C)`);
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, interval));
+      await pass().catch((error) => console.error("Pass failed:", error instanceof Error ? error.message : error));
+    }
+  });
+
+task("task:delegate", "Delegate the signer's vote, in every poll or in one poll")
+  .addParam("to", "Delegate address")
+  .addOptionalParam("poll", "Only delegate in this poll (counted right away while it is open)")
+  .addOptionalParam("proof", "Allowlist file from task:build-allowlist (required for gated polls)")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const tx =
+      taskArguments.poll === undefined
+        ? await contract.connect(signer).delegate(taskArguments.to as string)
+        : await contract.connect(signer).delegatePoll(parseInt(taskArguments.poll as string, 10), taskArguments.to);
+    console.log(`Delegating... tx=${tx.hash}`);
     await tx.wait();
-    console.log("Vote submitted");
+    console.log(`${signer.address} now delegates to ${taskArguments.to}`);
+
+    if (taskArguments.poll !== undefined) {
+      await hre.run("task:count-delegations", {
+        poll: taskArguments.poll,
+        delegators: signer.address,
+        proof: taskArguments.proof,
+        address: deployment.address,
+      });
+    }
+  });
+
+task("task:undelegate", "Clear the signer's delegation, in every poll or in one poll")
+  .addOptionalParam("poll", "Only clear the delegation of this poll (recounted right away while it is open)")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const tx =
+      taskArguments.poll === undefined
+        ? await contract.connect(signer).undelegate()
+        : await contract.connect(signer).undelegatePoll(parseInt(taskArguments.poll as string, 10));
+    console.log(`Clearing delegation... tx=${tx.hash}`);
+    await tx.wait();
+    console.log("Delegation cleared");
+
+    if (taskArguments.poll !== undefined) {
+      await hre.run("task:count-delegations", {
+        poll: taskArguments.poll,
+        delegators: signer.address,
+        address: deployment.address,
+      });
+    }
+  });
+
+task("task:count-delegations", "Count delegated weight with the ballots of the delegates who voted")
+  .addParam("poll", "Poll id")
+  .addOptionalParam("delegators", "Comma separated delegators (defaults to everyone who ever delegated)")
+  .addOptionalParam("proof", "Allowlist file from task:build-allowlist (required for gated polls)")
+  .addOptionalParam("batch", "Delegators counted per transaction", "5")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const summary = await contract.getPollSummary(pollId);
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    if (now < summary.startTime || now >= summary.endTime || summary.finalized || summary.cancelled) {
+      console.log(`Poll ${pollId} is not open; delegations are counted while it is`);
+      return;
+    }
+
+    let delegators: string[];
+    if (taskArguments.delegators) {
+      delegators = (taskArguments.delegators as string).split(",").map((s) => s.trim());
+    } else {
+      const global = await contract.queryFilter(contract.filters.DelegateChanged());
+      const local = await contract.queryFilter(contract.filters.PollDelegateChanged(pollId));
+      delegators = [...new Set([...global, ...local].map((event) => event.args.delegator))];
+    }
+
+    const { eligibilityRoot } = await contract.getPollSettings(pollId);
+    let proofs: string[][] = [];
+    if (eligibilityRoot !== ethers.ZeroHash) {
+      if (!taskArguments.proof) {
+        throw new Error("Gated polls need --proof with the poll allowlist");
+      }
+      const tree = loadAllowlist(taskArguments.proof as string);
+      const eligible = delegators.flatMap((delegator) => {
+        const proof = findAllowlistProof(tree, delegator);
+        return proof ? [{ delegator, proof }] : [];
+      });
+      if (eligible.length < delegators.length) {
+        console.log(`Skipping ${delegators.length - eligible.length} delegators outside the allowlist`);
+      }
+      delegators = eligible.map(({ delegator }) => delegator);
+      proofs = eligible.map(({ proof }) => proof);
+    }
+
+    const batch = parseInt(taskArguments.batch as string, 10);
+    for (let offset = 0; offset < delegators.length; offset += batch) {
+      const tx = await contract
+        .connect(signer)
+        .countDelegations(
+          pollId,
+          delegators.slice(offset, offset + batch),
+          proofs.length > 0 ? proofs.slice(offset, offset + batch) : [],
+        );
+      console.log(`Counting delegators ${offset + 1}-${Math.min(offset + batch, delegators.length)}... tx=${tx.hash}`);
+      await tx.wait();
+    }
+
+    for (const delegator of delegators) {
+      const { representative } = await contract.getDelegation(pollId, delegator);
+      const counted = representative === ethers.ZeroAddress ? "not counted" : `counted with ${representative}`;
+      console.log(`${delegator}: ${(await contract.hasUserVoted(pollId, delegator)) ? "voted directly" : counted}`);
+    }
+  });
+
+task("task:my-vote", "Decrypt the ballot recorded for the signer (only the voter can)")
+  .addParam("poll", "Poll id")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const ballot = await contract.connect(signer).getMyBallot(pollId);
+    if (ballot.length === 0) {
+      console.log(`${signer.address} has not voted in poll ${pollId}`);
+      return;
+    }
+
+    const values: number[] = [];
+    for (const handle of ballot) {
+      values.push(Number(await fhevm.userDecryptEuint(FhevmType.euint32, handle, deployment.address, signer)));
+    }
+
+    const { kind } = await contract.getPollSettings(pollId);
+    const options = await contract.getPollOptions(pollId);
+    const [value] = values;
+    let recorded: string;
+    if (Number(kind) === PollKind.Score) {
+      recorded = options.map((option, index) => `${option} ${values[index]}`).join(", ");
+    } else if (Number(kind) === PollKind.Survey) {
+      const [questions, optionCounts] = await contract.getQuestions(pollId);
+      recorded = surveyQuestions(questions, optionCounts, options)
+        .map(({ question, options: answers }, index) => {
+          const answer = values[index];
+          const label =
+            answer === ABSTAIN ? "abstain" : answer < answers.length ? answers[answer] : `invalid (index ${answer})`;
+          return `${question}: ${label}`;
+        })
+        .join("; ");
+    } else if (value === ABSTAIN) {
+      recorded = "abstain";
+    } else if (Number(kind) === PollKind.Approval) {
+      recorded =
+        value < 1 << options.length
+          ? options.filter((_, index) => (value & (1 << index)) !== 0).join(", ") || "no option approved"
+          : `invalid (mask ${value})`;
+    } else if (Number(kind) === PollKind.Ranked) {
+      recorded =
+        value < (await contract.getEncryptedTallies(pollId)).length - COUNTER_TALLIES
+          ? indexToRanking(value, options.length)
+              .map((option) => options[option])
+              .join(" > ")
+          : `invalid (ranking index ${value})`;
+    } else {
+      recorded = value < options.length ? options[value] : `invalid (option index ${value})`;
+    }
+    console.log(`Recorded ballot: ${recorded}`);
+  });
+
+task("task:peek-results", "Decrypt the running tallies of a poll that lets its creator peek (creator only)")
+  .addParam("poll", "Poll id")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+    await fhevm.initializeCLIApi();
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const [signer] = await ethers.getSigners();
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const summary = await contract.getPollSummary(pollId);
+    if (!summary.creatorCanPeek) {
+      throw new Error(`Poll ${pollId} does not share interim results with its creator`);
+    }
+    if (summary.creator.toLowerCase() !== signer.address.toLowerCase()) {
+      throw new Error(`Only the creator ${summary.creator} can peek at poll ${pollId}`);
+    }
+
+    const tallies: number[] = [];
+    for (const handle of await contract.getEncryptedTallies(pollId)) {
+      tallies.push(Number(await fhevm.userDecryptEuint(FhevmType.euint32, handle, deployment.address, signer)));
+    }
+
+    const { kind } = await contract.getPollSettings(pollId);
+    const options = await contract.getPollOptions(pollId);
+    console.log(`Interim results of poll ${pollId} (not published, may still change):`);
+    if (Number(kind) === PollKind.Survey) {
+      const [questions, optionCounts] = await contract.getQuestions(pollId);
+      printSurvey(surveyQuestions(questions, optionCounts, options), tallies, "  ");
+      return;
+    }
+    if (Number(kind) === PollKind.Ranked) {
+      tallies.slice(0, -COUNTER_TALLIES).forEach((count, index) => {
+        if (count > 0) {
+          const ranking = indexToRanking(index, options.length).map((option) => options[option]);
+          console.log(`  ${ranking.join(" > ")}: ${count}`);
+        }
+      });
+    } else {
+      const unit = Number(kind) === PollKind.Score ? " (score sum)" : "";
+      options.forEach((option, index) => console.log(`  ${option}: ${tallies[index]}${unit}`));
+      if (Number(kind) !== PollKind.SingleChoice) {
+        console.log(`  Ballots: ${tallies[options.length]}`);
+      }
+    }
+    const [abstained, invalid] = tallies.slice(-COUNTER_TALLIES);
+    console.log(`  Abstained: ${abstained}, invalid ballots: ${invalid}`);
+  });
+
+task("task:list-polls", "Lists every poll with its status, reading a page of polls per call")
+  .addOptionalParam("pageSize", "Polls read per call", "50")
+  .addOptionalParam("voter", "Also show whether this address voted")
+  .addOptionalParam("address", "Override MetaVote address")
+  .addOptionalParam("lens", "Override MetaVoteLens address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const lens = await getLens(hre, taskArguments);
+    const pageSize = parseInt(taskArguments.pageSize as string, 10);
+    if (!(pageSize > 0)) {
+      throw new Error("--page-size must be a positive number");
+    }
+    const voter = taskArguments.voter ? (taskArguments.voter as string) : ethers.ZeroAddress;
+    const now = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+
+    let listed = 0;
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await lens.getPolls(offset, pageSize, voter);
+      for (const record of page) {
+        const status = record.cancelled
+          ? "cancelled"
+          : record.finalized
+            ? `${record.resultsPublished ? "published" : "finalized"}, ${outcomeLabels[Number(record.outcome)]}`
+            : now < record.startTime
+              ? `opens at ${record.startTime}`
+              : now < record.endTime
+                ? `open until ${record.endTime}`
+                : "ended, not finalized";
+        const voted = voter === ethers.ZeroAddress ? "" : record.voter.voted ? ", voted" : ", not voted";
+        const kind = kindLabels[Number(record.settings.kind)];
+        console.log(`#${record.id} ${record.title} [${kind}] ${status}, ${record.voterCount} voters${voted}`);
+      }
+      listed += page.length;
+      if (page.length < pageSize) {
+        break;
+      }
+    }
+    console.log(`${listed} poll(s)`);
+  });
+
+task("task:poll-info", "Prints the rules, status and recorded outcome of a poll")
+  .addParam("poll", "Poll id")
+  .addOptionalParam("address", "Override MetaVote address")
+  .addOptionalParam("lens", "Override MetaVoteLens address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const lens = await getLens(hre, taskArguments);
+    const [record] = await lens.getPolls(pollId, 1, ethers.ZeroAddress);
+    if (record === undefined) {
+      throw new Error(`Poll ${pollId} does not exist`);
+    }
+    const { options, settings, outcome, winningOption } = record;
+
+    console.log(`Poll ${pollId}: ${record.title}`);
+    if (record.questions.length > 0) {
+      surveyQuestions(record.questions, record.questionSizes, options).forEach(
+        ({ question, options: answers }, index) => {
+          console.log(`Question ${index + 1}: ${question} (${answers.join(", ")})`);
+        },
+      );
+    } else {
+      console.log(`Options: ${options.join(", ")}`);
+    }
+    console.log(`Ballot: ${kindLabels[Number(settings.kind)]}`);
+    console.log(`Window: ${record.startTime} - ${record.endTime}`);
+    console.log(`Creator: ${record.creator}`);
+    console.log(`Allowlist root: ${settings.eligibilityRoot === ethers.ZeroHash ? "open" : settings.eligibilityRoot}`);
+    console.log(`Weight token: ${settings.weightToken === ethers.ZeroAddress ? "none" : settings.weightToken}`);
+    const membership = settings.membershipToken;
+    console.log(`Membership NFT: ${membership === ethers.ZeroAddress ? "none" : `${membership} (one vote per token)`}`);
+    console.log(`Quorum: ${settings.quorum}`);
+    console.log(`Threshold: ${Number(settings.thresholdBps) / 100}%`);
+    console.log(`Reveals: ${settings.revealWinnerOnly ? "the winning option only" : "every tally"}`);
+    console.log(`Interim results: ${settings.creatorCanPeek ? "visible to the creator while voting" : "hidden"}`);
+    const minParticipants = settings.minParticipants;
+    const voters = record.voterCount;
+    console.log(`Turnout: ${voters} voters${minParticipants > 0n ? ` (at least ${minParticipants} to reveal)` : ""}`);
+    console.log(`Cohorts: ${record.cohorts.length > 0 ? record.cohorts.join(", ") : "none"}`);
+    const { actions, executionDelay, executableAt, executed } = record.proposal;
+    if (actions.length > 0) {
+      const runs = actions.filter((action) => action.target !== ethers.ZeroAddress).length;
+      const state = executed ? "executed" : executableAt > 0n ? `executable from ${executableAt}` : "not queued";
+      console.log(`Proposal: ${runs} option action(s), ${executionDelay}s timelock, ${state}`);
+    }
+    console.log(
+      `Cancelled: ${record.cancelled}, finalized: ${record.finalized}, results published: ${record.resultsPublished}`,
+    );
+
+    const label = outcomeLabels[Number(outcome)];
+    const decided = Number(outcome) === PollOutcome.Passed || Number(outcome) === PollOutcome.Rejected;
+    console.log(`Outcome: ${label}${decided ? ` (leading option: ${options[Number(winningOption)]})` : ""}`);
+  });
+
+task("task:build-allowlist", "Builds an eligibility Merkle tree from a CSV of addresses")
+  .addParam("csv", "CSV file with one voter address per line (first column, so task:assign-cohorts files work too)")
+  .addOptionalParam("out", "Output allowlist file", "allowlist.json")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+    const lines = fs.readFileSync(taskArguments.csv as string, "utf8").split(/\r?\n/);
+
+    const addresses = new Set<string>();
+    for (const line of lines) {
+      const cell = line.split(",")[0].trim();
+      if (ethers.isAddress(cell)) {
+        addresses.add(ethers.getAddress(cell));
+      }
+    }
+    if (addresses.size === 0) {
+      throw new Error("No addresses found in the CSV file");
+    }
+
+    const tree = StandardMerkleTree.of(
+      [...addresses].map((address) => [address]),
+      ["address"],
+    );
+    fs.writeFileSync(taskArguments.out as string, JSON.stringify(tree.dump(), null, 2));
+
+    console.log(`Allowlist with ${addresses.size} addresses written to ${taskArguments.out}`);
+    console.log(`Merkle root: ${tree.root}`);
   });
 
 task("task:finalize", "Finalize a poll (make tallies publicly decryptable)")
@@ -83,7 +1439,14 @@ task("task:finalize", "Finalize a poll (make tallies publicly decryptable)")
     const tx = await contract.connect(signer).finalizePoll(pollId);
     console.log(`Finalizing poll... tx=${tx.hash}`);
     await tx.wait();
-    console.log("Poll finalized");
+
+    const [outcome] = await contract.getPollOutcome(pollId);
+    if (Number(outcome) === PollOutcome.InsufficientTurnout) {
+      const [voters, minParticipants] = await contract.getTurnout(pollId);
+      console.log(`Poll closed, insufficient turnout (${voters} of ${minParticipants} voters); tallies stay encrypted`);
+    } else {
+      console.log("Poll finalized");
+    }
   });
 
 task("task:decrypt-results", "Decrypt public tallies for a poll")
@@ -97,16 +1460,77 @@ task("task:decrypt-results", "Decrypt public tallies for a poll")
 
     const pollId = parseInt(taskArguments.poll as string, 10);
     const contract = await ethers.getContractAt("MetaVote", deployment.address);
-    const tallies = await contract.getEncryptedTallies(pollId);
+    const [outcome] = await contract.getPollOutcome(pollId);
+    if (Number(outcome) === PollOutcome.InsufficientTurnout) {
+      throw new Error(`Poll ${pollId} closed with insufficient turnout; its tallies are never revealed`);
+    }
+    const tallies = await contract.getDecryptionHandles(pollId);
 
     const handles = tallies.map((h: string) => h);
     const decrypted = await fhevm.publicDecrypt(handles);
 
     console.log("Decryption proof:", decrypted.decryptionProof);
     handles.forEach((handle) => {
-      const clear = decrypted.clearValues[handle];
+      const clear = decrypted.clearValues[handle as `0x${string}`];
       console.log(`Handle ${handle}: ${clear?.toString() ?? "unknown"}`);
     });
+
+    const { kind, revealWinnerOnly, minParticipants } = await contract.getPollSettings(pollId);
+    const results = handles.map((handle) => Number(decrypted.clearValues[handle as `0x${string}`]));
+    if (revealWinnerOnly) {
+      const options = await contract.getPollOptions(pollId);
+      const [winner, tie] = results;
+      console.log(tie ? "Winner: none, the leading options are tied" : `Winner: ${options[winner]}`);
+      console.log("Only the winner is revealed; the tallies stay encrypted");
+      return;
+    }
+    const tallyCount = (await contract.getEncryptedTallies(pollId)).length;
+    const clearTallies = results.slice(0, tallyCount);
+    const [questions, optionCounts] = await contract.getQuestions(pollId);
+    const survey = surveyQuestions(questions, optionCounts, await contract.getPollOptions(pollId));
+    if (Number(kind) === PollKind.Survey) {
+      printSurvey(survey, clearTallies);
+    }
+    if (Number(kind) === PollKind.Score) {
+      const options = await contract.getPollOptions(pollId);
+      const count = clearTallies[options.length];
+      console.log(`Score ballots: ${count}`);
+      options.forEach((option, index) => {
+        const mean = count > 0 ? (clearTallies[index] / count).toFixed(2) : "n/a";
+        console.log(`${option}: sum ${clearTallies[index]}, mean ${mean}`);
+      });
+    } else if (Number(kind) === PollKind.Ranked) {
+      const options = await contract.getPollOptions(pollId);
+      const counts = firstPreferences(clearTallies, options.length);
+      console.log("First preferences (run task:tally-ranked for the runoff):");
+      options.forEach((option, index) => console.log(`${option}: ${counts[index]}`));
+    } else if (Number(kind) !== PollKind.Survey) {
+      const options = await contract.getPollOptions(pollId);
+      if (Number(kind) === PollKind.Approval) {
+        console.log(`Approval ballots: ${clearTallies[options.length]}`);
+      }
+      options.forEach((option, index) => console.log(`${option}: ${clearTallies[index]}`));
+    }
+    if (Number(kind) !== PollKind.Survey) {
+      const [abstained, invalid] = clearTallies.slice(-COUNTER_TALLIES);
+      console.log(`Abstained: ${abstained}`);
+      console.log(`Invalid ballots: ${invalid}`);
+    }
+
+    const [labels, , voterCounts] = await contract.getCohorts(pollId);
+    if (labels.length > 0) {
+      console.log("By cohort:");
+      printCohorts(
+        labels,
+        voterCounts.map(Number),
+        Number(minParticipants),
+        results,
+        tallyCount,
+        Number(kind),
+        await contract.getPollOptions(pollId),
+        survey,
+      );
+    }
   });
 
 task("task:publish-results", "Decrypt and publish results on-chain")
@@ -120,11 +1544,15 @@ task("task:publish-results", "Decrypt and publish results on-chain")
 
     const pollId = parseInt(taskArguments.poll as string, 10);
     const contract = await ethers.getContractAt("MetaVote", deployment.address);
-    const tallies = await contract.getEncryptedTallies(pollId);
+    const [outcome] = await contract.getPollOutcome(pollId);
+    if (Number(outcome) === PollOutcome.InsufficientTurnout) {
+      throw new Error(`Poll ${pollId} closed with insufficient turnout; its tallies are never revealed`);
+    }
+    const tallies = await contract.getDecryptionHandles(pollId);
 
     const handles = tallies.map((h: string) => h);
     const decrypted = await fhevm.publicDecrypt(handles);
-    const clearTallies = handles.map((handle: string) => Number(decrypted.clearValues[handle]));
+    const clearTallies = handles.map((handle) => Number(decrypted.clearValues[handle as `0x${string}`]));
 
     const [signer] = await ethers.getSigners();
     const tx = await contract
@@ -132,5 +1560,194 @@ task("task:publish-results", "Decrypt and publish results on-chain")
       .publishResults(pollId, clearTallies, decrypted.decryptionProof);
     console.log(`Publishing results... tx=${tx.hash}`);
     await tx.wait();
-    console.log("Results published on-chain");
+
+    const { revealWinnerOnly } = await contract.getPollSettings(pollId);
+    if (revealWinnerOnly) {
+      const [winner, tie] = clearTallies;
+      const options = await contract.getPollOptions(pollId);
+      console.log(`Published winner only: ${tie ? "tie" : options[winner]}`);
+    } else {
+      console.log("Results published on-chain");
+    }
+
+    const [, , executableAt] = await contract.getProposal(pollId);
+    if (executableAt > 0n) {
+      console.log(`Proposal passed; task:execute can run it from ${executableAt}`);
+    }
+  });
+
+task("task:export-results", "Write the published results of a poll, with their proof, as a JSON bundle and a CSV")
+  .addParam("poll", "Poll id")
+  .addOptionalParam("out", "Output file name, without extension (default: poll-<id>-results)")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const bundle = await buildResultsBundle(hre, deployment.address, pollId);
+    const out = (taskArguments.out as string | undefined) ?? `poll-${pollId}-results`;
+    fs.writeFileSync(`${out}.json`, JSON.stringify(bundle, null, 2));
+    fs.writeFileSync(`${out}.csv`, resultsCsv(bundle));
+
+    console.log(`Results of poll ${pollId} written to ${out}.json and ${out}.csv`);
+    console.log(`${bundle.voters.length} voter(s), ${bundle.handles.length} decrypted handle(s)`);
+  });
+
+task("task:kms-signers", "Save the KMS signer set of the network, to verify results bundles without chain access")
+  .addOptionalParam("out", "Output file", "kms-signers.json")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const kms = await readKmsConfig(hre.ethers.provider);
+    fs.writeFileSync(taskArguments.out as string, JSON.stringify(kms, null, 2));
+    console.log(`${kms.signers.length} KMS signer(s), threshold ${kms.threshold}, written to ${taskArguments.out}`);
+  });
+
+task("task:verify-results", "Check the KMS signatures over published results, on chain or in an exported bundle")
+  .addOptionalParam("poll", "Poll id, to verify the results published on chain")
+  .addOptionalParam("bundle", "Results bundle written by task:export-results")
+  .addOptionalParam("kms", "KMS signer file written by task:kms-signers (default: read from the network)")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    if (!taskArguments.poll === !taskArguments.bundle) {
+      throw new Error("Pass either --poll or --bundle");
+    }
+
+    let bundle: ResultsBundle;
+    let expectedHandles: string[] | undefined;
+    if (taskArguments.bundle) {
+      bundle = JSON.parse(fs.readFileSync(taskArguments.bundle as string, "utf8")) as ResultsBundle;
+      if (bundle.format !== RESULTS_FORMAT) {
+        throw new Error(`${taskArguments.bundle} is not a ${RESULTS_FORMAT} bundle`);
+      }
+    } else {
+      const deployment = taskArguments.address
+        ? { address: taskArguments.address as string }
+        : await deployments.get("MetaVote");
+      const pollId = parseInt(taskArguments.poll as string, 10);
+      bundle = await buildResultsBundle(hre, deployment.address, pollId);
+      // Winner-only polls have no other getter for their winner and tie handles.
+      if (!bundle.poll.settings.revealWinnerOnly) {
+        const contract = await ethers.getContractAt("MetaVote", deployment.address);
+        const [, cohortTallies] = await contract.getCohorts(pollId);
+        expectedHandles = [...(await contract.getEncryptedTallies(pollId)), ...cohortTallies];
+      }
+    }
+
+    let kms: KmsConfig;
+    if (taskArguments.kms) {
+      kms = JSON.parse(fs.readFileSync(taskArguments.kms as string, "utf8")) as KmsConfig;
+    } else {
+      const { chainId } = await ethers.provider.getNetwork();
+      if (chainId.toString() !== bundle.chainId) {
+        throw new Error(`The bundle comes from chain ${bundle.chainId}; select that --network or pass --kms`);
+      }
+      kms = await readKmsConfig(ethers.provider);
+    }
+
+    const { valid, signers, problems } = verifyResultsBundle(bundle, kms, expectedHandles);
+    console.log(`Poll ${bundle.poll.id} of ${bundle.contract} on chain ${bundle.chainId}`);
+    console.log(`${signers.length} of ${kms.signers.length} KMS signer(s) signed, threshold ${kms.threshold}`);
+    if (!valid) {
+      throw new Error(`The results of poll ${bundle.poll.id} do not verify: ${problems.join("; ")}`);
+    }
+    console.log(`Verified: ${bundle.handles.length} handle(s) and their clear values match the KMS signatures`);
+  });
+
+task("task:execute", "Run the action of the winning option of a passed proposal once its timelock has elapsed")
+  .addParam("poll", "Poll id")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+    const [actions, , executableAt, executed] = await contract.getProposal(pollId);
+    if (actions.length === 0) {
+      throw new Error(`Poll ${pollId} is not a proposal`);
+    }
+    if (executed) {
+      throw new Error(`The proposal of poll ${pollId} has already been executed`);
+    }
+    if (executableAt === 0n) {
+      const [outcome] = await contract.getPollOutcome(pollId);
+      const reason =
+        Number(outcome) === PollOutcome.Passed ? "the winning option has no action" : outcomeLabels[Number(outcome)];
+      throw new Error(`Poll ${pollId} has nothing to execute (${reason})`);
+    }
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    if (BigInt(now) < executableAt) {
+      throw new Error(
+        `The timelock of poll ${pollId} ends at ${executableAt}, ${executableAt - BigInt(now)}s from now`,
+      );
+    }
+
+    const [signer] = await ethers.getSigners();
+    const tx = await contract.connect(signer).execute(pollId);
+    console.log(`Executing proposal... tx=${tx.hash}`);
+    await tx.wait();
+
+    const [, winningOption] = await contract.getPollOutcome(pollId);
+    const action = actions[Number(winningOption)];
+    console.log(`Executed option ${winningOption}: called ${action.target}`);
+  });
+
+task("task:tally-ranked", "Replay the instant-runoff rounds of a published ranked poll")
+  .addParam("poll", "Poll id")
+  .addOptionalParam("address", "Override MetaVote address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const deployment = taskArguments.address
+      ? { address: taskArguments.address as string }
+      : await deployments.get("MetaVote");
+
+    const pollId = parseInt(taskArguments.poll as string, 10);
+    const contract = await ethers.getContractAt("MetaVote", deployment.address);
+
+    const { kind } = await contract.getPollSettings(pollId);
+    if (Number(kind) !== PollKind.Ranked) {
+      throw new Error(`Poll ${pollId} is not a ranked poll`);
+    }
+    const summary = await contract.getPollSummary(pollId);
+    if (!summary.resultsPublished) {
+      throw new Error("Results are not published yet; run task:publish-results first");
+    }
+
+    const options = await contract.getPollOptions(pollId);
+    const [published] = await contract.getPublishedResults(pollId);
+    const results = published.map(Number).slice(0, (await contract.getEncryptedTallies(pollId)).length);
+    const tallies = results.slice(0, -COUNTER_TALLIES);
+    const [abstained, invalid] = results.slice(-COUNTER_TALLIES);
+
+    console.log("Ballots per ranking:");
+    tallies.forEach((count, index) => {
+      if (count > 0) {
+        const ranking = indexToRanking(index, options.length).map((option) => options[option]);
+        console.log(`  ${ranking.join(" > ")}: ${count}`);
+      }
+    });
+
+    console.log(`Abstained: ${abstained}, invalid ballots: ${invalid}`);
+
+    const { rounds, winner } = instantRunoff(tallies, options.length);
+    if (rounds.length === 0) {
+      console.log("No ballots were cast");
+      return;
+    }
+    rounds.forEach((round, index) => {
+      const standings = round.counts
+        .flatMap((count, option) => (count === null ? [] : [`${options[option]} ${count}`]))
+        .join(", ");
+      const outcome = round.eliminated === undefined ? "" : ` -> ${options[round.eliminated]} eliminated`;
+      console.log(`Round ${index + 1}: ${standings}${outcome}`);
+    });
+    console.log(`Instant-runoff winner: ${winner === undefined ? "none (tie)" : options[winner]}`);
+
+    const condorcet = condorcetWinner(tallies, options.length);
+    console.log(`Condorcet winner: ${condorcet === undefined ? "none" : options[condorcet]}`);
   });
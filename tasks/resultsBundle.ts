@@ -0,0 +1,92 @@
+/**
+ * Export of results bundles from the chain, and the KMS configuration their signatures are checked against. The bundle
+ * format and the signature check live in `shared/resultsBundle.ts`, which the app uses too.
+ */
+import { Contract } from "ethers";
+import type { Provider } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { KMS_VERIFIER_ADDRESS, RESULTS_FORMAT } from "../shared/resultsBundle";
+import type { KmsConfig, ResultsBundle } from "../shared/resultsBundle";
+
+export { KMS_VERIFIER_ADDRESS, RESULTS_FORMAT, verifyResultsBundle } from "../shared/resultsBundle";
+export type { BundleVerification, KmsConfig, ResultsBundle, SignedResults } from "../shared/resultsBundle";
+
+/** Reads the published results of a poll and everything needed to check them into a bundle. */
+export async function buildResultsBundle(
+  hre: HardhatRuntimeEnvironment,
+  metaVoteAddress: string,
+  pollId: number,
+): Promise<ResultsBundle> {
+  const { ethers } = hre;
+  const contract = await ethers.getContractAt("MetaVote", metaVoteAddress);
+  const summary = await contract.getPollSummary(pollId);
+  if (!summary.resultsPublished) {
+    throw new Error(`Poll ${pollId} has no published results yet`);
+  }
+
+  const [clearTallies, proof] = await contract.getPublishedResults(pollId);
+  const settings = await contract.getPollSettings(pollId);
+  const [questions, questionSizes] = await contract.getQuestions(pollId);
+  const [cohorts] = await contract.getCohorts(pollId);
+  const [outcome, winningOption] = await contract.getPollOutcome(pollId);
+  const blockOf = (events: { blockNumber: number }[]) => events[0]?.blockNumber ?? 0;
+
+  return {
+    format: RESULTS_FORMAT,
+    chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+    contract: metaVoteAddress,
+    poll: {
+      id: pollId,
+      title: summary.title,
+      creator: summary.creator,
+      startTime: Number(summary.startTime),
+      endTime: Number(summary.endTime),
+      kind: Number(settings.kind),
+      options: [...(await contract.getPollOptions(pollId))],
+      questions: [...questions],
+      questionSizes: questionSizes.map(Number),
+      cohorts: [...cohorts],
+      settings: {
+        eligibilityRoot: settings.eligibilityRoot,
+        weightToken: settings.weightToken,
+        membershipToken: settings.membershipToken,
+        quorum: Number(settings.quorum),
+        thresholdBps: Number(settings.thresholdBps),
+        minParticipants: Number(settings.minParticipants),
+        revealWinnerOnly: settings.revealWinnerOnly,
+        creatorCanPeek: settings.creatorCanPeek,
+      },
+      outcome: Number(outcome),
+      winningOption: Number(winningOption),
+    },
+    tallyCount: (await contract.getEncryptedTallies(pollId)).length,
+    handles: [...(await contract.getDecryptionHandles(pollId))],
+    clearTallies: clearTallies.map(Number),
+    publicDecryptionProof: proof,
+    blocks: {
+      created: blockOf(await contract.queryFilter(contract.filters.PollCreated(pollId))),
+      finalized: blockOf(await contract.queryFilter(contract.filters.PollFinalized(pollId))),
+      published: blockOf(await contract.queryFilter(contract.filters.ResultsPublished(pollId))),
+      exported: await ethers.provider.getBlockNumber(),
+    },
+    voters: (await contract.queryFilter(contract.filters.VoteSubmitted(pollId))).map((event) => event.args.voter),
+  };
+}
+
+const KMS_VERIFIER_ABI = [
+  "function getKmsSigners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+  "function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])",
+];
+
+/** Reads the KMS signer set, threshold and signature domain from the KMSVerifier of the provider's chain. */
+export async function readKmsConfig(provider: Provider, address = KMS_VERIFIER_ADDRESS): Promise<KmsConfig> {
+  const kmsVerifier = new Contract(address, KMS_VERIFIER_ABI, provider);
+  const [, name, version, domainChainId, verifyingContract] = await kmsVerifier.eip712Domain();
+  return {
+    domain: { name, version, chainId: Number(domainChainId), verifyingContract },
+    signers: [...(await kmsVerifier.getKmsSigners())],
+    threshold: Number(await kmsVerifier.getThreshold()),
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Signed ballots for gasless voting. A voter encrypts the choice for the relayer's address, signs an EIP-712 `Vote`
+ * over it, and the relayer submits it with `castVoteBySig`. Queue files hold a JSON array of these entries.
+ */
+import * as fs from "fs";
+
+export type SignedBallot = {
+  pollId: number;
+  voter: string;
+  /** Account that must submit the ballot; the input proof only verifies for it. */
+  relayer: string;
+  encryptedChoice: string;
+  inputProof: string;
+  eligibilityProof: string[];
+  nonce: string;
+  deadline: number;
+  signature: string;
+  /** Set by `task:relay-votes` once the ballot is submitted or rejected. */
+  txHash?: string;
+  error?: string;
+};
+
+/** Mirrors MetaVote.VOTE_TYPEHASH. */
+export const VOTE_TYPES = {
+  Vote: [
+    { name: "pollId", type: "uint256" },
+    { name: "encryptedChoice", type: "bytes32" },
+    { name: "inputProofHash", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export function voteDomain(chainId: bigint, verifyingContract: string) {
+  return { name: "MetaVote", version: "1", chainId, verifyingContract };
+}
+
+export function loadQueue(path: string): SignedBallot[] {
+  return fs.existsSync(path) ? (JSON.parse(fs.readFileSync(path, "utf8")) as SignedBallot[]) : [];
+}
+
+export function saveQueue(path: string, queue: SignedBallot[]) {
+  fs.writeFileSync(path, JSON.stringify(queue, null, 2));
+}
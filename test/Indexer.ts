@@ -0,0 +1,181 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import * as fs from "fs";
+import type { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  IndexState,
+  IndexedPoll,
+  IndexedVoter,
+  createIndexServer,
+  indexedBlock,
+  listIndexedPolls,
+  loadIndex,
+  saveIndex,
+  syncIndex,
+} from "../tasks/indexer";
+import { MetaVote, MetaVote__factory } from "../types";
+
+describe("MetaVote indexer", function () {
+  let voterA: HardhatEthersSigner;
+  let voterB: HardhatEthersSigner;
+  let metaVote: MetaVote;
+  let metaVoteAddress: string;
+  let deployBlock: number;
+  let storePath: string;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("MetaVote indexer tests run only against the FHEVM mock environment");
+      this.skip();
+    }
+
+    [, voterA, voterB] = await ethers.getSigners();
+    const pollTally = await (await ethers.getContractFactory("PollTally")).deploy();
+    const pollActions = await (await ethers.getContractFactory("PollActions")).deploy();
+    const ballotSignature = await (await ethers.getContractFactory("BallotSignature")).deploy();
+    const factory = (await ethers.getContractFactory("MetaVote", {
+      libraries: {
+        BallotSignature: await ballotSignature.getAddress(),
+        PollActions: await pollActions.getAddress(),
+        PollTally: await pollTally.getAddress(),
+      },
+    })) as MetaVote__factory;
+    metaVote = (await factory.deploy()) as MetaVote;
+    metaVoteAddress = await metaVote.getAddress();
+    deployBlock = (await metaVote.deploymentTransaction()!.wait())!.blockNumber;
+    storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "metavote-index-")), "index.json");
+  });
+
+  async function createPoll(title: string, minParticipants = 0) {
+    const start = BigInt(await time.latest()) + 60n;
+    await (
+      await metaVote.createPoll(title, ["Yes", "No"], start, start + 300n, {
+        kind: 0,
+        eligibilityRoot: ethers.ZeroHash,
+        weightToken: ethers.ZeroAddress,
+        quorum: 0,
+        thresholdBps: 0,
+        creatorCanPeek: false,
+        minParticipants,
+        revealWinnerOnly: false,
+        membershipToken: ethers.ZeroAddress,
+      })
+    ).wait();
+    return { start, end: start + 300n };
+  }
+
+  async function vote(pollId: number, voter: HardhatEthersSigner, choice: number) {
+    const encryptedChoice = await fhevm.createEncryptedInput(metaVoteAddress, voter.address).add32(choice).encrypt();
+    await (
+      await metaVote.connect(voter).castVote(pollId, encryptedChoice.handles[0], encryptedChoice.inputProof, [])
+    ).wait();
+  }
+
+  async function sync(state: IndexState) {
+    const result = await syncIndex(ethers.provider, metaVote.interface, state, { batchSize: 3 });
+    saveIndex(storePath, state);
+    return result;
+  }
+
+  it("resumes from its checkpoint and drops the events of reorged blocks", async function () {
+    const { chainId } = await ethers.provider.getNetwork();
+    const { start } = await createPoll("Lunch");
+    await time.increaseTo(Number(start + 1n));
+    await vote(0, voterA, 1);
+
+    const state = loadIndex(storePath, chainId, metaVoteAddress, deployBlock);
+    expect(await sync(state)).to.deep.equal({ added: 2, removed: 0 });
+    expect(indexedBlock(state)).to.eq(await ethers.provider.getBlockNumber());
+
+    // A restarted indexer picks up after the saved checkpoint.
+    const resumed = loadIndex(storePath, chainId, metaVoteAddress, deployBlock);
+    expect(resumed).to.deep.equal(state);
+    expect(await sync(resumed)).to.deep.equal({ added: 0, removed: 0 });
+    expect(() => loadIndex(storePath, chainId, voterA.address, 0)).to.throw(/use another store/);
+
+    const snapshot = await takeSnapshot();
+    await vote(0, voterB, 0);
+    await vote(0, voterA, 0);
+    expect(await sync(resumed)).to.deep.equal({ added: 2, removed: 0 });
+    expect(listIndexedPolls(resumed)[0]).to.include({ voterCount: 2, ballotCount: 3 });
+
+    // Replace the two voting blocks with a longer fork that has no ballots.
+    await snapshot.restore();
+    await mine(3);
+    expect(await sync(resumed)).to.deep.equal({ added: 0, removed: 2 });
+    expect(indexedBlock(resumed)).to.eq(await ethers.provider.getBlockNumber());
+    const [poll] = listIndexedPolls(resumed);
+    expect(poll).to.include({ id: 0, title: "Lunch", voterCount: 1, ballotCount: 1 });
+    expect(poll.createdBlock).to.be.greaterThan(deployBlock);
+  });
+
+  it("serves polls and their voters over HTTP", async function () {
+    const { chainId } = await ethers.provider.getNetwork();
+    const { start, end } = await createPoll("Lunch");
+    await createPoll("Dinner");
+    await (await metaVote.editPoll(1, "Late dinner", ["Pizza", "Sushi"])).wait();
+    await time.increaseTo(Number(start + 1n));
+    await vote(0, voterA, 1);
+    await vote(0, voterA, 0);
+    await vote(0, voterB, 1);
+    await time.increaseTo(Number(end + 1n));
+    await (await metaVote.finalizePoll(0)).wait();
+    const handles = await metaVote.getDecryptionHandles(0);
+    const decrypted = await fhevm.publicDecrypt(handles);
+    const clearTallies = handles.map((handle) => Number(decrypted.clearValues[handle as `0x${string}`]));
+    await (await metaVote.publishResults(0, clearTallies, decrypted.decryptionProof)).wait();
+
+    const state = loadIndex(storePath, chainId, metaVoteAddress, deployBlock);
+    await sync(state);
+    const server = createIndexServer(() => state);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const url = `http://localhost:${(server.address() as AddressInfo).port}`;
+    async function get<T>(route: string) {
+      const response = await fetch(`${url}${route}`);
+      return { status: response.status, body: (await response.json()) as T };
+    }
+
+    try {
+      const polls = (await get<{ contract: string; indexedBlock: number; polls: IndexedPoll[] }>("/polls")).body;
+      expect([polls.contract, polls.indexedBlock]).to.deep.equal([metaVoteAddress, indexedBlock(state)]);
+      expect(polls.polls.map((poll) => poll.title)).to.deep.equal(["Lunch", "Late dinner"]);
+
+      const { body } = await get<{ poll: IndexedPoll }>("/polls/0");
+      expect(body.poll).to.include({ voterCount: 2, ballotCount: 3, cancelled: false, outcome: 4, winningOption: 0 });
+      expect(body.poll.results).to.deep.equal([1, 1, 0, 0]);
+      expect(body.poll.publishedAt).to.be.at.least(body.poll.finalizedAt);
+
+      const { voters } = (await get<{ voters: IndexedVoter[] }>("/polls/0/voters")).body;
+      expect(voters.map((entry) => entry.voter)).to.deep.equal([voterA.address, voterB.address]);
+      expect(voters[0].ballots).to.eq(2);
+      expect(voters[0].lastVotedAt).to.be.greaterThan(voters[0].firstVotedAt);
+
+      expect((await get<{ voters: IndexedVoter[] }>("/polls/1/voters")).body.voters).to.deep.equal([]);
+      expect((await get("/polls/2")).status).to.eq(404);
+      expect((await get("/ballots")).status).to.eq(404);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("records the finalization of polls closed for insufficient turnout", async function () {
+    const { chainId } = await ethers.provider.getNetwork();
+    const { start, end } = await createPoll("Quorum", 2);
+    await time.increaseTo(Number(start + 1n));
+    await vote(0, voterA, 1);
+    await time.increaseTo(Number(end + 1n));
+    await (await metaVote.finalizePoll(0)).wait();
+
+    const state = loadIndex(storePath, chainId, metaVoteAddress, deployBlock);
+    await sync(state);
+    const [poll] = listIndexedPolls(state);
+    expect(poll).to.include({ voterCount: 1, outcome: 5 });
+    expect(poll.finalizedAt).to.be.greaterThan(Number(end));
+    expect(poll.publishedAt).to.eq(undefined);
+  });
+});
@@ -0,0 +1,194 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, fhevm } from "hardhat";
+
+import { KeeperLog, PublicDecrypt, loadKeeperLog, runKeeper, saveKeeperLog } from "../tasks/keeper";
+import { MetaVote, MetaVoteLens, MetaVoteLens__factory, MetaVote__factory } from "../types";
+
+describe("MetaVote keeper", function () {
+  let other: HardhatEthersSigner;
+  let voterA: HardhatEthersSigner;
+  let metaVote: MetaVote;
+  let metaVoteAddress: string;
+  let lens: MetaVoteLens;
+  let log: KeeperLog;
+  let delays: number[];
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("MetaVote keeper tests run only against the FHEVM mock environment");
+      this.skip();
+    }
+
+    [, voterA, other] = await ethers.getSigners();
+    const pollTally = await (await ethers.getContractFactory("PollTally")).deploy();
+    const pollActions = await (await ethers.getContractFactory("PollActions")).deploy();
+    const ballotSignature = await (await ethers.getContractFactory("BallotSignature")).deploy();
+    const factory = (await ethers.getContractFactory("MetaVote", {
+      libraries: {
+        BallotSignature: await ballotSignature.getAddress(),
+        PollActions: await pollActions.getAddress(),
+        PollTally: await pollTally.getAddress(),
+      },
+    })) as MetaVote__factory;
+    metaVote = (await factory.deploy()) as MetaVote;
+    metaVoteAddress = await metaVote.getAddress();
+    const lensFactory = (await ethers.getContractFactory("MetaVoteLens")) as MetaVoteLens__factory;
+    lens = (await lensFactory.deploy(metaVoteAddress)) as MetaVoteLens;
+    log = { chainId: "31337", contract: metaVoteAddress, actions: [] };
+    delays = [];
+  });
+
+  async function createPoll(minParticipants = 0) {
+    const start = BigInt(await time.latest()) + 60n;
+    await (
+      await metaVote.createPoll("Keep?", ["Yes", "No"], start, start + 300n, {
+        kind: 0,
+        eligibilityRoot: ethers.ZeroHash,
+        weightToken: ethers.ZeroAddress,
+        quorum: 0,
+        thresholdBps: 0,
+        creatorCanPeek: false,
+        minParticipants,
+        revealWinnerOnly: false,
+        membershipToken: ethers.ZeroAddress,
+      })
+    ).wait();
+    return { start, end: start + 300n };
+  }
+
+  async function vote(pollId: number, choice: number) {
+    const encryptedChoice = await fhevm.createEncryptedInput(metaVoteAddress, voterA.address).add32(choice).encrypt();
+    await (
+      await metaVote.connect(voterA).castVote(pollId, encryptedChoice.handles[0], encryptedChoice.inputProof, [])
+    ).wait();
+  }
+
+  const decrypt: PublicDecrypt = async (handles) => {
+    const decrypted = await fhevm.publicDecrypt(handles);
+    return {
+      clearTallies: handles.map((handle) => Number(decrypted.clearValues[handle as `0x${string}`])),
+      decryptionProof: decrypted.decryptionProof,
+    };
+  };
+
+  function keep(decryptWith: PublicDecrypt = decrypt, retries = 2) {
+    return runKeeper(metaVote, lens, decryptWith, log, {
+      pageSize: 2,
+      retries,
+      backoffMs: 100,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+  }
+
+  const steps = (actions: KeeperLog["actions"]) =>
+    actions.map(({ pollId, step, status, attempts }) => [pollId, step, status, attempts]);
+
+  it("finalizes and publishes polls once they end", async function () {
+    const { start } = await createPoll();
+    await createPoll();
+    const { end } = await createPoll();
+    await time.increaseTo(Number(start + 1n));
+    await vote(0, 1);
+    expect(await keep()).to.deep.equal([]);
+
+    await time.increaseTo(Number(end + 1n));
+    const actions = await keep();
+    expect(steps(actions)).to.deep.equal([
+      [0, "finalize", "done", 1],
+      [0, "publish", "done", 1],
+      [1, "finalize", "done", 1],
+      [1, "publish", "done", 1],
+      [2, "finalize", "done", 1],
+      [2, "publish", "done", 1],
+    ]);
+    expect(actions[1].transactionHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect((await metaVote.getPublishedResults(0))[0].map(Number)).to.deep.equal([0, 1, 0, 0]);
+    expect(log.actions).to.deep.equal(actions);
+    expect(await keep()).to.deep.equal([]);
+  });
+
+  it("retries a failed publish with backoff and leaves an exhausted one for the next pass", async function () {
+    const { end } = await createPoll();
+    await time.increaseTo(Number(end + 1n));
+
+    let failures = 3;
+    const flaky: PublicDecrypt = async (handles) => {
+      if (failures-- > 0) {
+        throw new Error("relayer unavailable");
+      }
+      return decrypt(handles);
+    };
+    const failed = await keep(flaky);
+    expect(steps(failed)).to.deep.equal([
+      [0, "finalize", "done", 1],
+      [0, "publish", "failed", 3],
+    ]);
+    expect(failed[1].error).to.eq("relayer unavailable");
+    expect(delays).to.deep.equal([100, 200]);
+    expect((await metaVote.getPollSummary(0)).resultsPublished).to.eq(false);
+
+    delays = [];
+    failures = 1;
+    expect(steps(await keep(flaky))).to.deep.equal([[0, "publish", "done", 2]]);
+    expect(delays).to.deep.equal([100]);
+    expect((await metaVote.getPollSummary(0)).resultsPublished).to.eq(true);
+  });
+
+  it("logs steps another account took first as already done", async function () {
+    await createPoll();
+    const { end } = await createPoll();
+    await time.increaseTo(Number(end + 1n));
+
+    // While the keeper decrypts poll 0, someone else publishes it and finalizes poll 1, already read as unfinalized.
+    let raced = false;
+    const racing: PublicDecrypt = async (handles) => {
+      const decrypted = await decrypt(handles);
+      if (!raced) {
+        raced = true;
+        await (
+          await metaVote.connect(other).publishResults(0, decrypted.clearTallies, decrypted.decryptionProof)
+        ).wait();
+        await (await metaVote.connect(other).finalizePoll(1)).wait();
+      }
+      return decrypted;
+    };
+    expect(steps(await keep(racing))).to.deep.equal([
+      [0, "finalize", "done", 1],
+      [0, "publish", "already done", 1],
+      [1, "finalize", "already done", 1],
+      [1, "publish", "done", 1],
+    ]);
+    expect(delays).to.deep.equal([]);
+  });
+
+  it("finalizes polls closed for insufficient turnout without publishing them", async function () {
+    const { end } = await createPoll(2);
+    await time.increaseTo(Number(end + 1n));
+
+    expect(steps(await keep())).to.deep.equal([[0, "finalize", "done", 1]]);
+    expect(await keep()).to.deep.equal([]);
+    expect((await metaVote.getPollSummary(0)).resultsPublished).to.eq(false);
+  });
+
+  it("saves the action log and refuses to reuse it for another contract", async function () {
+    const logPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "metavote-keeper-")), "keeper-log.json");
+    const fresh = loadKeeperLog(logPath, 31337n, metaVoteAddress);
+    expect(fresh).to.deep.equal(log);
+
+    const { end } = await createPoll();
+    await time.increaseTo(Number(end + 1n));
+    await keep();
+    saveKeeperLog(logPath, log);
+    expect(loadKeeperLog(logPath, 31337n, metaVoteAddress.toLowerCase())).to.deep.equal(log);
+    expect(fs.existsSync(`${logPath}.tmp`)).to.eq(false);
+    expect(() => loadKeeperLog(logPath, 31337n, ethers.ZeroAddress)).to.throw(/use another log/);
+    expect(() => loadKeeperLog(logPath, 1n, metaVoteAddress)).to.throw(/use another log/);
+  });
+});
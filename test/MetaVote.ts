@@ -1,8 +1,40 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
 import { expect } from "chai";
-import { ethers, fhevm } from "hardhat";
-import { MetaVote, MetaVote__factory } from "../types";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { RESULTS_FORMAT, buildResultsBundle, readKmsConfig, verifyResultsBundle } from "../tasks/resultsBundle";
+import {
+  MetaVote,
+  MetaVote__factory,
+  MetaVoteLens,
+  MetaVoteLens__factory,
+  MockConfidentialToken,
+  MockConfidentialToken__factory,
+  MockMembershipNFT,
+  MockMembershipNFT__factory,
+  MockProposalTarget,
+  MockProposalTarget__factory,
+} from "../types";
+
+enum PollKind {
+  SingleChoice,
+  Approval,
+  Ranked,
+  Score,
+  Survey,
+}
+
+enum PollOutcome {
+  Pending,
+  Passed,
+  FailedQuorum,
+  Rejected,
+  Tie,
+  InsufficientTurnout,
+}
 
 describe("MetaVote", function () {
   let deployer: HardhatEthersSigner;
@@ -18,25 +50,76 @@ describe("MetaVote", function () {
     }
 
     [deployer, voterA, voterB] = await ethers.getSigners();
-    const factory = (await ethers.getContractFactory("MetaVote")) as MetaVote__factory;
+    const pollTally = await (await ethers.getContractFactory("PollTally")).deploy();
+    const pollActions = await (await ethers.getContractFactory("PollActions")).deploy();
+    const ballotSignature = await (await ethers.getContractFactory("BallotSignature")).deploy();
+    const factory = (await ethers.getContractFactory("MetaVote", {
+      libraries: {
+        BallotSignature: await ballotSignature.getAddress(),
+        PollActions: await pollActions.getAddress(),
+        PollTally: await pollTally.getAddress(),
+      },
+    })) as MetaVote__factory;
     metaVote = (await factory.deploy()) as MetaVote;
     metaVoteAddress = await metaVote.getAddress();
   });
 
-  async function createSamplePoll() {
+  function pollSettings(overrides: Partial<MetaVote.PollSettingsStruct> = {}): MetaVote.PollSettingsStruct {
+    return {
+      kind: PollKind.SingleChoice,
+      eligibilityRoot: ethers.ZeroHash,
+      weightToken: ethers.ZeroAddress,
+      quorum: 0,
+      thresholdBps: 0,
+      creatorCanPeek: false,
+      minParticipants: 0,
+      revealWinnerOnly: false,
+      membershipToken: ethers.ZeroAddress,
+      ...overrides,
+    };
+  }
+
+  async function createSamplePoll(
+    settings: Partial<MetaVote.PollSettingsStruct> = {},
+    options = ["Solidity", "TypeScript", "Rust"],
+  ) {
     const now = BigInt(await time.latest());
-    const start = now + 2n;
+    const start = now + 60n;
     const end = start + 300n;
-    const tx = await metaVote.createPoll(
-      "Favorite language",
-      ["Solidity", "TypeScript", "Rust"],
-      start,
-      end,
-    );
+    const tx = await metaVote.createPoll("Favorite language", options, start, end, pollSettings(settings));
     await tx.wait();
     return { start, end };
   }
 
+  async function vote(pollId: number, voter: HardhatEthersSigner, choice: number) {
+    const encryptedChoice = await fhevm.createEncryptedInput(metaVoteAddress, voter.address).add32(choice).encrypt();
+    const receipt = await (
+      await metaVote.connect(voter).castVote(pollId, encryptedChoice.handles[0], encryptedChoice.inputProof, [])
+    ).wait();
+    return receipt!.gasUsed;
+  }
+
+  async function scoreVote(pollId: number, voter: HardhatEthersSigner, scores: number[]) {
+    const input = fhevm.createEncryptedInput(metaVoteAddress, voter.address);
+    scores.forEach((score) => input.add32(score));
+    const encryptedScores = await input.encrypt();
+    await (
+      await metaVote.connect(voter).castScores(pollId, encryptedScores.handles, encryptedScores.inputProof, [])
+    ).wait();
+  }
+
+  async function finalizeAndPublish(pollId: number) {
+    await (await metaVote.finalizePoll(pollId)).wait();
+
+    const handles = await metaVote.getDecryptionHandles(pollId);
+    const decrypted = await fhevm.publicDecrypt(handles);
+    const clearTallies = handles.map((handle) => Number(decrypted.clearValues[handle as `0x${string}`]));
+
+    await (await metaVote.publishResults(pollId, clearTallies, decrypted.decryptionProof)).wait();
+    const published = await metaVote.getPublishedResults(pollId);
+    return published[0].map(Number);
+  }
+
   it("creates polls, accepts encrypted votes, and publishes verified results", async function () {
     const { start, end } = await createSamplePoll();
     await time.increaseTo(Number(start + 1n));
@@ -47,7 +130,7 @@ describe("MetaVote", function () {
       .encrypt();
     await (await metaVote
       .connect(voterA)
-      .castVote(0, encryptedChoiceA.handles[0], encryptedChoiceA.inputProof)).wait();
+      .castVote(0, encryptedChoiceA.handles[0], encryptedChoiceA.inputProof, [])).wait();
 
     const encryptedChoiceB = await fhevm
       .createEncryptedInput(metaVoteAddress, voterB.address)
@@ -55,7 +138,7 @@ describe("MetaVote", function () {
       .encrypt();
     await (await metaVote
       .connect(voterB)
-      .castVote(0, encryptedChoiceB.handles[0], encryptedChoiceB.inputProof)).wait();
+      .castVote(0, encryptedChoiceB.handles[0], encryptedChoiceB.inputProof, [])).wait();
 
     const hasVotedA = await metaVote.hasUserVoted(0, voterA.address);
     expect(hasVotedA).to.eq(true);
@@ -71,11 +154,11 @@ describe("MetaVote", function () {
     await (await metaVote.publishResults(0, clearTallies, decrypted.decryptionProof)).wait();
     const published = await metaVote.getPublishedResults(0);
 
-    expect(published[0].map(Number)).to.deep.equal([0, 1, 1]);
+    expect(published[0].map(Number)).to.deep.equal([0, 1, 1, 0, 0]);
     expect(published[1].length).to.be.greaterThan(0);
   });
 
-  it("prevents double voting and enforces time windows", async function () {
+  it("lets voters replace their ballot and enforces time windows", async function () {
     const { start, end } = await createSamplePoll();
 
     const encryptedChoice = await fhevm
@@ -84,23 +167,1022 @@ describe("MetaVote", function () {
       .encrypt();
 
     await expect(
-      metaVote.connect(voterA).castVote(0, encryptedChoice.handles[0], encryptedChoice.inputProof),
+      metaVote.connect(voterA).castVote(0, encryptedChoice.handles[0], encryptedChoice.inputProof, []),
     ).to.be.reverted;
 
     await time.increaseTo(Number(start + 1n));
 
     await (await metaVote
       .connect(voterA)
-      .castVote(0, encryptedChoice.handles[0], encryptedChoice.inputProof)).wait();
+      .castVote(0, encryptedChoice.handles[0], encryptedChoice.inputProof, [])).wait();
 
     await expect(
-      metaVote.connect(voterA).castVote(0, encryptedChoice.handles[0], encryptedChoice.inputProof),
-    ).to.be.reverted;
+      metaVote.connect(voterA).castVote(0, encryptedChoice.handles[0], encryptedChoice.inputProof, []),
+    )
+      .to.emit(metaVote, "VoteChanged")
+      .withArgs(0, voterA.address);
 
     await time.increaseTo(Number(end + 1n));
     await (await metaVote.finalizePoll(0)).wait();
     await expect(
-      metaVote.connect(voterB).castVote(0, encryptedChoice.handles[0], encryptedChoice.inputProof),
+      metaVote.connect(voterB).castVote(0, encryptedChoice.handles[0], encryptedChoice.inputProof, []),
     ).to.be.reverted;
   });
+
+  it("counts only the last ballot of each voter", async function () {
+    const { start, end } = await createSamplePoll();
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterA, 0);
+    await vote(0, voterB, 2);
+    await vote(0, voterA, 1);
+    await vote(0, voterB, 2);
+    await vote(0, deployer, 0);
+    await vote(0, deployer, 0);
+
+    await time.increaseTo(Number(end + 1n));
+    expect(await finalizeAndPublish(0)).to.deep.equal([1, 1, 1, 0, 0]);
+  });
+
+  it("counts abstentions and out-of-range choices in their own tallies", async function () {
+    const { start, end } = await createSamplePoll();
+    const abstain = Number(await metaVote.ABSTAIN());
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterA, abstain);
+    await vote(0, voterB, 3);
+    await vote(0, deployer, 7);
+    await vote(0, deployer, 1);
+    await vote(0, voterB, abstain);
+    await vote(0, voterB, 3);
+
+    await time.increaseTo(Number(end + 1n));
+    const results = await finalizeAndPublish(0);
+    expect(results).to.deep.equal([0, 1, 0, 1, 1]);
+    const voters = await metaVote.queryFilter(metaVote.filters.VoteSubmitted(0));
+    expect(results.reduce((sum, value) => sum + value, 0)).to.eq(voters.length);
+    expect(await metaVote.getPollOutcome(0)).to.deep.equal([PollOutcome.Passed, 1n]);
+  });
+
+  it("counts approval bitmasks and marks masks that do not fit the options invalid", async function () {
+    const { start, end } = await createSamplePoll({ kind: PollKind.Approval });
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterA, 0b101);
+    await vote(0, voterB, 0b110);
+    await vote(0, deployer, 0b1001);
+
+    await time.increaseTo(Number(end + 1n));
+    expect(await finalizeAndPublish(0)).to.deep.equal([1, 1, 2, 2, 0, 1]);
+  });
+
+  it("keeps a histogram of encrypted rankings for ranked polls", async function () {
+    const { start, end } = await createSamplePoll({ kind: PollKind.Ranked });
+    expect((await metaVote.getEncryptedTallies(0)).length).to.eq(8);
+    await time.increaseTo(Number(start + 1n));
+
+    // Lehmer order of the 3! rankings: 0 = [0,1,2], 1 = [0,2,1], 2 = [1,0,2], 3 = [1,2,0], 4 = [2,0,1], 5 = [2,1,0].
+    await vote(0, voterA, 4);
+    await vote(0, voterB, 3);
+    await vote(0, deployer, 1);
+    await vote(0, deployer, 4);
+
+    await time.increaseTo(Number(end + 1n));
+    expect(await finalizeAndPublish(0)).to.deep.equal([0, 0, 0, 1, 2, 0, 0, 0]);
+    expect(await metaVote.getPollOutcome(0)).to.deep.equal([PollOutcome.Passed, 2n]);
+  });
+
+  it("lets ranked voters replace a ballot across all orderings of four options", async function () {
+    const { start, end } = await createSamplePoll({ kind: PollKind.Ranked }, ["Ada", "Grace", "Linus", "Barbara"]);
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterA, 23);
+    await vote(0, voterA, 7);
+    await vote(0, voterB, 24);
+
+    await time.increaseTo(Number(end + 1n));
+    const results = await finalizeAndPublish(0);
+    expect(results.length).to.eq(26);
+    expect(results.slice(0, 24).reduce((sum, value) => sum + value, 0)).to.eq(1);
+    expect(results[7]).to.eq(1);
+    expect(results.slice(24)).to.deep.equal([0, 1]);
+  });
+
+  it("sums clamped scores per option and counts score ballots", async function () {
+    const { start, end } = await createSamplePoll({ kind: PollKind.Score });
+    expect((await metaVote.getEncryptedTallies(0)).length).to.eq(6);
+    await time.increaseTo(Number(start + 1n));
+
+    await scoreVote(0, voterA, [1, 1, 1]);
+    await scoreVote(0, voterA, [7, 10, 3]);
+    await scoreVote(0, voterB, [25, 0, 5]);
+
+    const shortBallot = await fhevm.createEncryptedInput(metaVoteAddress, deployer.address).add32(4).add32(4).encrypt();
+    await expect(
+      metaVote.castScores(0, shortBallot.handles, shortBallot.inputProof, []),
+    ).to.be.revertedWithCustomError(metaVote, "InvalidBallot");
+    await expect(
+      metaVote.castVote(0, shortBallot.handles[0], shortBallot.inputProof, []),
+    ).to.be.revertedWithCustomError(metaVote, "InvalidBallot");
+
+    await time.increaseTo(Number(end + 1n));
+    expect(await finalizeAndPublish(0)).to.deep.equal([17, 10, 8, 2, 0, 0]);
+    expect(await metaVote.getPollOutcome(0)).to.deep.equal([PollOutcome.Passed, 0n]);
+  });
+
+  it("tallies every survey question from one encrypted input", async function () {
+    const now = BigInt(await time.latest());
+    const settings = pollSettings({ kind: PollKind.Survey });
+    const questions = ["Language", "Editor", "Tabs"];
+    const options = ["Solidity", "Rust", "Vim", "Emacs", "VS Code", "Tabs", "Spaces"];
+    const start = now + 60n;
+    const end = start + 300n;
+    await (await metaVote.createSurvey("Team survey", questions, [2, 3, 2], options, start, end, settings)).wait();
+    expect(await metaVote.getQuestions(0)).to.deep.equal([questions, [2n, 3n, 2n]]);
+    expect((await metaVote.getEncryptedTallies(0)).length).to.eq(13);
+
+    await expect(
+      metaVote.createSurvey("Team survey", questions, [2, 3, 2], options.slice(1), start, end, settings),
+    ).to.be.revertedWithCustomError(metaVote, "InvalidOptions");
+    await expect(
+      metaVote.createSurvey("Team survey", questions, [2, 4, 1], options, start, end, settings),
+    ).to.be.revertedWithCustomError(metaVote, "InvalidOptions");
+    await expect(
+      metaVote.createSurvey("Team survey", questions, [2, 3, 2], options, start, end, { ...settings, quorum: 1 }),
+    ).to.be.revertedWithCustomError(metaVote, "InvalidMode");
+    await expect(createSamplePoll({ kind: PollKind.Survey })).to.be.revertedWithCustomError(metaVote, "InvalidMode");
+    // The largest survey, eight questions of two options, still answers within one transaction.
+    await (
+      await metaVote.createSurvey(
+        "Large survey",
+        Array.from({ length: 8 }, (_, i) => `Question ${i}`),
+        Array(8).fill(2),
+        Array.from({ length: 16 }, (_, i) => `Option ${i}`),
+        start,
+        end,
+        settings,
+      )
+    ).wait();
+    await time.increaseTo(Number(start + 1n));
+
+    async function answer(pollId: number, voter: HardhatEthersSigner, answers: number[]) {
+      const input = fhevm.createEncryptedInput(metaVoteAddress, voter.address);
+      answers.forEach((value) => input.add32(value));
+      const encryptedAnswers = await input.encrypt();
+      await (
+        await metaVote.connect(voter).castAnswers(pollId, encryptedAnswers.handles, encryptedAnswers.inputProof, [])
+      ).wait();
+    }
+    const abstain = Number(await metaVote.ABSTAIN());
+    await answer(0, voterA, [1, 2, abstain]);
+    await answer(0, voterA, [0, 2, 1]);
+    await answer(0, voterB, [1, 5, 0]);
+    await answer(1, voterA, [1, 0, 1, 0, 1, 0, 1, 0]);
+
+    const shortBallot = await fhevm.createEncryptedInput(metaVoteAddress, deployer.address).add32(0).add32(0).encrypt();
+    await expect(
+      metaVote.castAnswers(0, shortBallot.handles, shortBallot.inputProof, []),
+    ).to.be.revertedWithCustomError(metaVote, "InvalidBallot");
+    await expect(
+      metaVote.castVote(0, shortBallot.handles[0], shortBallot.inputProof, []),
+    ).to.be.revertedWithCustomError(metaVote, "InvalidBallot");
+
+    await time.increaseTo(Number(end + 1n));
+    // Each question keeps [options..., abstain, invalid].
+    expect(await finalizeAndPublish(0)).to.deep.equal([1, 1, 0, 0, 0, 0, 1, 0, 1, 1, 1, 0, 0]);
+    expect(await metaVote.getPollOutcome(0)).to.deep.equal([PollOutcome.Pending, 0n]);
+    const largeResults = Array.from({ length: 8 }, (_, i) => (i % 2 === 0 ? [0, 1, 0, 0] : [1, 0, 0, 0]));
+    expect(await finalizeAndPublish(1)).to.deep.equal(largeResults.flat());
+  });
+
+  it("records the outcome against the quorum and threshold", async function () {
+    await createSamplePoll({ quorum: 3 });
+    await createSamplePoll({ thresholdBps: 5000 });
+    await createSamplePoll({ thresholdBps: 6667 });
+    const { start, end } = await createSamplePoll();
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterA, 1);
+    await vote(0, voterB, 1);
+    for (const pollId of [1, 2]) {
+      await vote(pollId, voterA, 2);
+      await vote(pollId, voterB, 2);
+      await vote(pollId, deployer, 0);
+    }
+    await vote(3, voterA, 0);
+    await vote(3, voterB, 2);
+
+    await time.increaseTo(Number(end + 1n));
+    await finalizeAndPublish(0);
+    expect(await metaVote.getPollOutcome(0)).to.deep.equal([PollOutcome.FailedQuorum, 0n]);
+    await finalizeAndPublish(1);
+    expect(await metaVote.getPollOutcome(1)).to.deep.equal([PollOutcome.Passed, 2n]);
+    await finalizeAndPublish(2);
+    expect(await metaVote.getPollOutcome(2)).to.deep.equal([PollOutcome.Rejected, 2n]);
+    await finalizeAndPublish(3);
+    expect(await metaVote.getPollOutcome(3)).to.deep.equal([PollOutcome.Tie, 0n]);
+
+    await expect(createSamplePoll({ thresholdBps: 10_000 })).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidThreshold",
+    );
+  });
+
+  it("runs the action of a passed proposal's winning option once, after its timelock", async function () {
+    const targetFactory = (await ethers.getContractFactory("MockProposalTarget")) as MockProposalTarget__factory;
+    const target = (await targetFactory.deploy(await metaVote.PROPOSAL_EXECUTOR())) as MockProposalTarget;
+    const targetAddress = await target.getAddress();
+    const setValue = target.interface.encodeFunctionData("setValue", [42]);
+    const refuse = target.interface.encodeFunctionData("refuse");
+    const delay = 86_400n;
+
+    await createSamplePoll({ thresholdBps: 5000 });
+    await createSamplePoll();
+    const { start, end } = await createSamplePoll();
+    const actions = [
+      { target: targetAddress, data: setValue },
+      { target: ethers.ZeroAddress, data: "0x" },
+      { target: targetAddress, data: refuse },
+    ];
+    await expect(metaVote.connect(voterA).setActions(0, actions, delay)).to.be.revertedWithCustomError(
+      metaVote,
+      "NotPollCreator",
+    );
+    await expect(metaVote.setActions(0, actions.slice(0, 2), delay)).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidAction",
+    );
+    await expect(metaVote.setActions(0, actions, 3_600)).to.be.revertedWithCustomError(metaVote, "InvalidAction");
+    await expect(
+      metaVote.setActions(0, [actions[0], { target: voterA.address, data: "0x" }, actions[2]], delay),
+    ).to.be.revertedWithCustomError(metaVote, "InvalidAction");
+    for (const pollId of [0, 1, 2]) {
+      await expect(metaVote.setActions(pollId, actions, delay))
+        .to.emit(metaVote, "ProposalActionsSet")
+        .withArgs(pollId, delay);
+    }
+    const [stored, storedDelay] = await metaVote.getProposal(0);
+    expect(stored.map((action) => [action.target, action.data])).to.deep.equal(
+      actions.map((action) => [action.target, action.data]),
+    );
+    expect(storedDelay).to.eq(delay);
+
+    await time.increaseTo(Number(start + 1n));
+    await expect(metaVote.setActions(0, actions, delay)).to.be.revertedWithCustomError(
+      metaVote,
+      "PollAlreadyStarted",
+    );
+    await vote(0, voterA, 0);
+    await vote(0, voterB, 0);
+    await vote(0, deployer, 1);
+    await vote(1, voterA, 1);
+    await vote(2, voterA, 2);
+
+    await time.increaseTo(Number(end + 1n));
+    await expect(metaVote.execute(0)).to.be.revertedWithCustomError(metaVote, "ProposalNotExecutable");
+    await finalizeAndPublish(0);
+    const [, , executableAt] = await metaVote.getProposal(0);
+    expect(executableAt).to.eq(BigInt(await time.latest()) + delay);
+    await expect(metaVote.execute(0)).to.be.revertedWithCustomError(metaVote, "ProposalNotExecutable");
+
+    await time.increaseTo(executableAt);
+    await expect(metaVote.connect(voterB).execute(0))
+      .to.emit(metaVote, "ProposalExecuted")
+      .withArgs(0, 0, targetAddress);
+    expect(await target.value()).to.eq(42n);
+    expect((await metaVote.getProposal(0)).executed).to.eq(true);
+    await expect(metaVote.execute(0)).to.be.revertedWithCustomError(metaVote, "ProposalAlreadyExecuted");
+    expect(await target.updates()).to.eq(1n);
+
+    // The winner of poll 1 runs nothing, and the action of poll 2 reverts without using up the execution.
+    await finalizeAndPublish(1);
+    await finalizeAndPublish(2);
+    expect((await metaVote.getProposal(1)).executableAt).to.eq(0n);
+    await time.increase(delay);
+    await expect(metaVote.execute(1)).to.be.revertedWithCustomError(metaVote, "ProposalNotExecutable");
+    await expect(metaVote.execute(2)).to.be.revertedWithCustomError(target, "Refused");
+    expect((await metaVote.getProposal(2)).executed).to.eq(false);
+  });
+
+  it("keeps proposal actions away from the FHE permissions of MetaVote", async function () {
+    // FHE ACL and executor of ZamaConfig for chain 31337, where the mock deploys them.
+    const acl = "0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D";
+    const fheExecutor = "0xe3a9105a3a932253A70F126eb1E3b589C643dD24";
+    const aclInterface = new ethers.Interface(["function allow(bytes32 handle, address account)"]);
+    const allow = aclInterface.encodeFunctionData("allow", [ethers.ZeroHash, voterA.address]);
+    await createSamplePoll();
+    for (const target of [acl, fheExecutor, metaVoteAddress]) {
+      const actions = [
+        { target, data: allow },
+        { target: ethers.ZeroAddress, data: "0x" },
+        { target: ethers.ZeroAddress, data: "0x" },
+      ];
+      await expect(metaVote.setActions(0, actions, 86_400n)).to.be.revertedWithCustomError(metaVote, "InvalidAction");
+    }
+
+    // Allowed targets are called by the proposal executor, which only MetaVote can use.
+    const executor = await ethers.getContractAt("ProposalExecutor", await metaVote.PROPOSAL_EXECUTOR());
+    expect(await executor.META_VOTE()).to.eq(metaVoteAddress);
+    await expect(executor.connect(voterA).run(acl, allow)).to.be.revertedWithCustomError(executor, "NotMetaVote");
+  });
+
+  it("lets the creator decrypt running tallies only when the poll opts in", async function () {
+    const { start } = await createSamplePoll({ creatorCanPeek: true });
+    await createSamplePoll();
+    expect((await metaVote.getPollSummary(0)).creatorCanPeek).to.eq(true);
+    expect((await metaVote.getPollSummary(1)).creatorCanPeek).to.eq(false);
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterA, 1);
+    await vote(0, voterB, 1);
+    await vote(0, voterB, 2);
+    await vote(1, voterA, 1);
+
+    async function peek(pollId: number, user: HardhatEthersSigner) {
+      const clear = [];
+      for (const handle of await metaVote.getEncryptedTallies(pollId)) {
+        clear.push(Number(await fhevm.userDecryptEuint(FhevmType.euint32, handle, metaVoteAddress, user)));
+      }
+      return clear;
+    }
+    expect(await peek(0, deployer)).to.deep.equal([0, 1, 1, 0, 0]);
+    await expect(peek(0, voterA)).to.be.rejected;
+    await expect(peek(1, deployer)).to.be.rejected;
+  });
+
+  it("closes polls below the minimum turnout without revealing their tallies", async function () {
+    const { start, end } = await createSamplePoll({ minParticipants: 3 });
+    await createSamplePoll({ minParticipants: 2 });
+    await expect(createSamplePoll({ minParticipants: 2, creatorCanPeek: true })).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidMode",
+    );
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterA, 1);
+    await vote(0, voterA, 2);
+    await vote(0, voterB, 2);
+    await vote(1, voterA, 1);
+    await vote(1, voterB, 2);
+    expect(await metaVote.getTurnout(0)).to.deep.equal([2n, 3n]);
+    await time.increaseTo(Number(end + 1n));
+
+    await expect(metaVote.finalizePoll(0))
+      .to.emit(metaVote, "PollFinalized")
+      .withArgs(0)
+      .and.to.emit(metaVote, "PollOutcomeRecorded")
+      .withArgs(0, PollOutcome.InsufficientTurnout, 0);
+    expect((await metaVote.getPollSummary(0)).finalized).to.eq(true);
+    await expect(metaVote.finalizePoll(0)).to.be.revertedWithCustomError(metaVote, "PollAlreadyFinalized");
+    await expect(fhevm.publicDecrypt(await metaVote.getEncryptedTallies(0))).to.be.rejected;
+    await expect(metaVote.publishResults(0, [0, 1, 1, 0, 0], "0x")).to.be.revertedWithCustomError(
+      metaVote,
+      "InsufficientTurnout",
+    );
+    expect((await metaVote.getPollOutcome(0))[0]).to.eq(PollOutcome.InsufficientTurnout);
+
+    expect(await finalizeAndPublish(1)).to.deep.equal([0, 1, 1, 0, 0]);
+  });
+
+  it("reveals only the winning option and a tie flag in winner-only polls", async function () {
+    const { start, end } = await createSamplePoll({ revealWinnerOnly: true });
+    await createSamplePoll({ kind: PollKind.Approval, revealWinnerOnly: true });
+    await expect(createSamplePoll({ kind: PollKind.Ranked, revealWinnerOnly: true })).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidMode",
+    );
+    await expect(createSamplePoll({ quorum: 2, revealWinnerOnly: true })).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidMode",
+    );
+    await expect(createSamplePoll({ creatorCanPeek: true, revealWinnerOnly: true })).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidMode",
+    );
+    await time.increaseTo(Number(start + 1n));
+
+    // Options 0 and 1 tie until option 2 overtakes both.
+    const [, , , carol] = await ethers.getSigners();
+    await vote(0, voterA, 2);
+    await vote(0, voterB, 2);
+    await vote(0, deployer, 0);
+    await vote(0, carol, 1);
+    await vote(1, voterA, 0b011);
+    await vote(1, voterB, 0b100);
+    await time.increaseTo(Number(end + 1n));
+
+    expect(await finalizeAndPublish(0)).to.deep.equal([2, 0]);
+    expect(await metaVote.getPollOutcome(0)).to.deep.equal([PollOutcome.Passed, 2n]);
+    await expect(fhevm.publicDecrypt(await metaVote.getEncryptedTallies(0))).to.be.rejected;
+
+    expect(await finalizeAndPublish(1)).to.deep.equal([0, 1]);
+    expect(await metaVote.getPollOutcome(1)).to.deep.equal([PollOutcome.Tie, 0n]);
+  });
+
+  it("splits the tallies by the cohort the creator assigned each voter", async function () {
+    const [, , , carol, dave] = await ethers.getSigners();
+    const options = Array.from({ length: 16 }, (_, index) => `Candidate ${index + 1}`);
+    const { start, end } = await createSamplePoll();
+    await createSamplePoll({ kind: PollKind.Approval }, options);
+    await createSamplePoll({ revealWinnerOnly: true });
+
+    await expect(metaVote.connect(voterA).defineCohorts(0, ["Staff"])).to.be.revertedWithCustomError(
+      metaVote,
+      "NotPollCreator",
+    );
+    await expect(metaVote.defineCohorts(2, ["Staff"])).to.be.revertedWithCustomError(metaVote, "InvalidMode");
+    await (await metaVote.defineCohorts(0, ["Staff", "Students"])).wait();
+    await (await metaVote.defineCohorts(1, ["Everyone"])).wait();
+    await expect(metaVote.defineCohorts(0, ["Alumni"])).to.be.revertedWithCustomError(metaVote, "InvalidCohort");
+
+    await (await metaVote.assignCohorts(0, [voterA.address, voterB.address, carol.address], [0, 1, 1])).wait();
+    await (await metaVote.assignCohorts(1, [voterA.address], [0])).wait();
+    await expect(metaVote.assignCohorts(0, [dave.address], [2])).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidCohort",
+    );
+    const [labels, cohortTallies] = await metaVote.getCohorts(0);
+    expect(labels).to.deep.equal(["Staff", "Students"]);
+    expect(cohortTallies.length).to.eq(10);
+    expect(await metaVote.getCohortOf(0, carol.address)).to.deep.equal([true, 1n]);
+    expect(await metaVote.getCohortOf(0, deployer.address)).to.deep.equal([false, 0n]);
+    await time.increaseTo(Number(start + 1n));
+
+    // Dave's delegated vote counts in the cohort of voterB, who carries it.
+    await (await metaVote.connect(dave).delegate(voterB.address)).wait();
+    await vote(0, voterA, 1);
+    await vote(0, voterB, 2);
+    await vote(0, carol, 2);
+    await vote(0, carol, 0);
+    await vote(0, deployer, 1);
+    await (await metaVote.countDelegations(0, [dave.address], [])).wait();
+    await expect(metaVote.assignCohorts(0, [voterA.address], [1])).to.be.revertedWithCustomError(
+      metaVote,
+      "AlreadyVoted",
+    );
+    await expect(metaVote.defineCohorts(1, ["Late"])).to.be.revertedWithCustomError(metaVote, "InvalidCohort");
+
+    // A 16-option approval re-vote updates both tally lists within the HCU limit.
+    await vote(1, voterA, (1 << 15) | 1);
+    await vote(1, voterA, (1 << 15) | (1 << 7));
+    await time.increaseTo(Number(end + 1n));
+
+    const results = await finalizeAndPublish(0);
+    expect(results.slice(0, 5)).to.deep.equal([1, 2, 2, 0, 0]);
+    expect(results.slice(5, 10)).to.deep.equal([0, 1, 0, 0, 0]);
+    expect(results.slice(10)).to.deep.equal([1, 0, 2, 0, 0]);
+    expect(await metaVote.getPollOutcome(0)).to.deep.equal([PollOutcome.Tie, 0n]);
+
+    const approval = await finalizeAndPublish(1);
+    expect(approval.length).to.eq(38);
+    expect(approval.slice(19)).to.deep.equal(approval.slice(0, 19));
+  });
+
+  it("reveals zero tallies for cohorts below the minimum turnout", async function () {
+    const [, , , carol] = await ethers.getSigners();
+    const { start, end } = await createSamplePoll({ minParticipants: 2 });
+    await (await metaVote.defineCohorts(0, ["Staff", "Students"])).wait();
+    await (await metaVote.assignCohorts(0, [voterA.address, voterB.address, carol.address], [0, 1, 1])).wait();
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterA, 1);
+    await vote(0, voterB, 2);
+    await vote(0, carol, 2);
+    await vote(0, carol, 0);
+    expect((await metaVote.getCohorts(0))[2]).to.deep.equal([1n, 2n]);
+    await time.increaseTo(Number(end + 1n));
+
+    const results = await finalizeAndPublish(0);
+    expect(results.slice(0, 5)).to.deep.equal([1, 1, 1, 0, 0]);
+    expect(results.slice(5, 10)).to.deep.equal([0, 0, 0, 0, 0]);
+    expect(results.slice(10)).to.deep.equal([1, 0, 1, 0, 0]);
+  });
+
+  it("lets the creator edit a poll before it starts", async function () {
+    const { start } = await createSamplePoll();
+
+    await expect(metaVote.editPoll(0, "Favourite language", ["Solidity", "Vyper", "Huff", "Yul"]))
+      .to.emit(metaVote, "PollEdited")
+      .withArgs(0, "Favourite language");
+    expect(await metaVote.getPollOptions(0)).to.deep.equal(["Solidity", "Vyper", "Huff", "Yul"]);
+    expect((await metaVote.getEncryptedTallies(0)).length).to.eq(6);
+    expect((await metaVote.getPollSummary(0)).title).to.eq("Favourite language");
+
+    await expect(metaVote.connect(voterA).editPoll(0, "Hijacked", ["A", "B"])).to.be.revertedWithCustomError(
+      metaVote,
+      "NotPollCreator",
+    );
+    await expect(metaVote.editPoll(0, "Too few", ["Solidity"])).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidOptions",
+    );
+
+    await time.increaseTo(Number(start + 1n));
+    await expect(metaVote.editPoll(0, "Too late", ["A", "B"])).to.be.revertedWithCustomError(
+      metaVote,
+      "PollAlreadyStarted",
+    );
+  });
+
+  it("lets the creator extend a poll until it ends", async function () {
+    const { start, end } = await createSamplePoll();
+    await time.increaseTo(Number(start + 1n));
+
+    await expect(metaVote.connect(voterA).extendPoll(0, end + 600n)).to.be.revertedWithCustomError(
+      metaVote,
+      "NotPollCreator",
+    );
+    await expect(metaVote.extendPoll(0, end)).to.be.revertedWithCustomError(metaVote, "InvalidWindow");
+    await expect(metaVote.extendPoll(0, end + 600n)).to.emit(metaVote, "PollExtended").withArgs(0, end + 600n);
+
+    await time.increaseTo(Number(end + 1n));
+    await vote(0, voterA, 1);
+    await expect(metaVote.finalizePoll(0)).to.be.revertedWithCustomError(metaVote, "PollNotFinished");
+
+    await time.increaseTo(Number(end + 601n));
+    await expect(metaVote.extendPoll(0, end + 1200n)).to.be.revertedWithCustomError(metaVote, "PollNotActive");
+    expect(await finalizeAndPublish(0)).to.deep.equal([0, 1, 0, 0, 0]);
+  });
+
+  it("lets the creator cancel a poll before it is finalized", async function () {
+    const { start, end } = await createSamplePoll();
+    await createSamplePoll();
+    await time.increaseTo(Number(start + 1n));
+    await vote(0, voterA, 1);
+
+    await expect(metaVote.connect(voterA).cancelPoll(0)).to.be.revertedWithCustomError(metaVote, "NotPollCreator");
+    await expect(metaVote.cancelPoll(0)).to.emit(metaVote, "PollCancelled").withArgs(0);
+    expect((await metaVote.getPollSummary(0)).cancelled).to.eq(true);
+
+    const encryptedChoice = await fhevm.createEncryptedInput(metaVoteAddress, voterB.address).add32(0).encrypt();
+    await expect(
+      metaVote.connect(voterB).castVote(0, encryptedChoice.handles[0], encryptedChoice.inputProof, []),
+    ).to.be.revertedWithCustomError(metaVote, "PollAlreadyCancelled");
+    await expect(metaVote.cancelPoll(0)).to.be.revertedWithCustomError(metaVote, "PollAlreadyCancelled");
+    await expect(metaVote.extendPoll(0, end + 600n)).to.be.revertedWithCustomError(
+      metaVote,
+      "PollAlreadyCancelled",
+    );
+    await expect(metaVote.editPoll(0, "Renamed", ["A", "B"])).to.be.revertedWithCustomError(
+      metaVote,
+      "PollAlreadyCancelled",
+    );
+
+    await time.increaseTo(Number(end + 1n));
+    await expect(metaVote.finalizePoll(0)).to.be.revertedWithCustomError(metaVote, "PollAlreadyCancelled");
+    await (await metaVote.finalizePoll(1)).wait();
+    await expect(metaVote.cancelPoll(1)).to.be.revertedWithCustomError(metaVote, "PollAlreadyFinalized");
+  });
+
+  it("supports up to 16 options and caps ranked polls at 4", async function () {
+    const options = Array.from({ length: 16 }, (_, index) => `Candidate ${index + 1}`);
+    const { start, end } = await createSamplePoll({}, options);
+    await createSamplePoll({ kind: PollKind.Approval }, options);
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterA, 15);
+    await vote(0, voterB, 3);
+    await vote(1, voterA, (1 << 15) | 1);
+    await vote(1, voterA, (1 << 15) | (1 << 7));
+
+    await time.increaseTo(Number(end + 1n));
+    const single = await finalizeAndPublish(0);
+    expect(single[15]).to.eq(1);
+    expect(single[3]).to.eq(1);
+    expect(single.reduce((sum, value) => sum + value, 0)).to.eq(2);
+    const approval = await finalizeAndPublish(1);
+    expect(approval.length).to.eq(19);
+    expect([approval[0], approval[7], approval[15], approval[16]]).to.deep.equal([0, 1, 1, 1]);
+
+    await expect(createSamplePoll({}, [...options, "Candidate 17"])).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidOptions",
+    );
+    await expect(
+      createSamplePoll({ kind: PollKind.Ranked }, options.slice(0, 5)),
+    ).to.be.revertedWithCustomError(metaVote, "InvalidOptions");
+  });
+
+  it("keeps castVote gas under its ceiling for every option count", async function () {
+    // Gas measured for two options and added per further option, with about 10% headroom.
+    const ceilings = {
+      "single vote": { base: 700_000n, perOption: 70_000n },
+      "single re-vote": { base: 820_000n, perOption: 135_000n },
+      "approval vote": { base: 740_000n, perOption: 70_000n },
+      "approval re-vote": { base: 980_000n, perOption: 135_000n },
+    };
+    const report: Record<string, string>[] = [];
+    for (let optionCount = 2; optionCount <= 16; optionCount++) {
+      const options = Array.from({ length: optionCount }, (_, index) => `Option ${index + 1}`);
+      const row: Record<string, string> = { options: `${optionCount}` };
+      for (const kind of [PollKind.SingleChoice, PollKind.Approval]) {
+        const { start } = await createSamplePoll({ kind }, options);
+        const pollId = Number(await metaVote.getPollCount()) - 1;
+        await time.increaseTo(Number(start + 1n));
+
+        const label = kind === PollKind.SingleChoice ? "single" : "approval";
+        const gasUsed = {
+          [`${label} vote`]: await vote(pollId, voterA, 1),
+          [`${label} re-vote`]: await vote(pollId, voterA, 0),
+        };
+        for (const [castPath, gas] of Object.entries(gasUsed)) {
+          const { base, perOption } = ceilings[castPath as keyof typeof ceilings];
+          const ceiling = base + perOption * BigInt(optionCount - 2);
+          expect(gas, `${castPath} with ${optionCount} options`).to.be.lte(ceiling);
+          row[castPath] = gas.toString();
+        }
+      }
+      report.push(row);
+    }
+    if (process.env.REPORT_GAS) {
+      console.table(report);
+    }
+  });
+
+  it("lets each voter decrypt only their own latest ballot", async function () {
+    const { start } = await createSamplePoll();
+    await createSamplePoll({ kind: PollKind.Score });
+    await time.increaseTo(Number(start + 1n));
+
+    expect(await metaVote.connect(voterA).getMyBallot(0)).to.deep.equal([]);
+    await vote(0, voterA, 2);
+    await vote(0, voterA, 1);
+    await vote(0, voterB, Number(await metaVote.ABSTAIN()));
+    await scoreVote(1, voterA, [12, 3, 0]);
+
+    const [choice] = await metaVote.connect(voterA).getMyBallot(0);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, choice, metaVoteAddress, voterA)).to.eq(1n);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, choice, metaVoteAddress, voterB)).to.be.rejected;
+
+    const [abstained] = await metaVote.connect(voterB).getMyBallot(0);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, abstained, metaVoteAddress, voterB)).to.eq(
+      await metaVote.ABSTAIN(),
+    );
+
+    const scores = await metaVote.connect(voterA).getMyBallot(1);
+    const clearScores = [];
+    for (const score of scores) {
+      clearScores.push(await fhevm.userDecryptEuint(FhevmType.euint32, score, metaVoteAddress, voterA));
+    }
+    expect(clearScores).to.deep.equal([10n, 3n, 0n]);
+  });
+
+  it("credits signed ballots relayed by another account to the signer", async function () {
+    const { start, end } = await createSamplePoll();
+    await time.increaseTo(Number(start + 1n));
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = { name: "MetaVote", version: "1", chainId, verifyingContract: metaVoteAddress };
+    const types = {
+      Vote: [
+        { name: "pollId", type: "uint256" },
+        { name: "encryptedChoice", type: "bytes32" },
+        { name: "inputProofHash", type: "bytes32" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+
+    // The relayer (deployer) submits, so the choice is encrypted for its address.
+    async function signBallot(signer: HardhatEthersSigner, choice: number, deadline: bigint) {
+      const input = await fhevm.createEncryptedInput(metaVoteAddress, deployer.address).add32(choice).encrypt();
+      const signature = await signer.signTypedData(domain, types, {
+        pollId: 0,
+        encryptedChoice: input.handles[0],
+        inputProofHash: ethers.keccak256(input.inputProof),
+        nonce: await metaVote.nonces(signer.address),
+        deadline,
+      });
+      return { input, signature, deadline };
+    }
+    function relay(voter: HardhatEthersSigner, ballot: Awaited<ReturnType<typeof signBallot>>) {
+      const { input, signature, deadline } = ballot;
+      return metaVote.castVoteBySig(0, voter.address, input.handles[0], input.inputProof, [], deadline, signature);
+    }
+
+    const deadline = end;
+    const ballotA = await signBallot(voterA, 1, deadline);
+    await expect(relay(voterA, ballotA)).to.emit(metaVote, "VoteSubmitted").withArgs(0, voterA.address);
+    expect(await metaVote.hasUserVoted(0, voterA.address)).to.eq(true);
+    expect(await metaVote.hasUserVoted(0, deployer.address)).to.eq(false);
+    expect(await metaVote.nonces(voterA.address)).to.eq(1n);
+    await expect(relay(voterA, ballotA)).to.be.revertedWithCustomError(metaVote, "InvalidSignature");
+
+    const forged = await signBallot(voterB, 2, deadline);
+    await expect(relay(voterA, forged)).to.be.revertedWithCustomError(metaVote, "InvalidSignature");
+    const expired = await signBallot(voterB, 2, BigInt(await time.latest()));
+    await expect(relay(voterB, expired)).to.be.revertedWithCustomError(metaVote, "ExpiredSignature");
+    await (await relay(voterB, await signBallot(voterB, 2, deadline))).wait();
+
+    // The voter can still read the relayed ballot back as a receipt.
+    const [choice] = await metaVote.connect(voterA).getMyBallot(0);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, choice, metaVoteAddress, voterA)).to.eq(1n);
+
+    await time.increaseTo(Number(end + 1n));
+    expect(await finalizeAndPublish(0)).to.deep.equal([0, 1, 1, 0, 0]);
+  });
+
+  it("counts delegated votes with the ballot at the end of each delegation chain", async function () {
+    const [, , , carol, dave, erin] = await ethers.getSigners();
+    const { start, end } = await createSamplePoll();
+    await (await metaVote.connect(carol).delegate(voterA.address)).wait();
+    await (await metaVote.connect(voterA).delegatePoll(0, voterB.address)).wait();
+    await (await metaVote.connect(dave).delegate(erin.address)).wait();
+    await (await metaVote.connect(erin).delegate(dave.address)).wait();
+    await expect(metaVote.delegate(ethers.ZeroAddress)).to.be.revertedWithCustomError(metaVote, "InvalidDelegate");
+    await expect(metaVote.countDelegations(0, [carol.address], [])).to.be.revertedWithCustomError(
+      metaVote,
+      "PollNotActive",
+    );
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterB, 2);
+    await expect(metaVote.countDelegations(0, [carol.address, voterA.address, dave.address], []))
+      .to.emit(metaVote, "DelegationCounted")
+      .withArgs(0, carol.address, voterB.address);
+    await (await metaVote.countDelegations(0, [carol.address, voterA.address], [])).wait();
+    expect((await metaVote.getDelegation(0, voterB.address)).delegations).to.eq(2);
+    expect((await metaVote.getDelegation(0, dave.address)).representative).to.eq(ethers.ZeroAddress);
+
+    // Voting directly takes voterA's weight back; carol follows once her chain is recounted.
+    await vote(0, voterA, 1);
+    expect((await metaVote.getDelegation(0, voterB.address)).delegations).to.eq(1);
+    await (await metaVote.countDelegations(0, [carol.address, voterA.address], [])).wait();
+    expect((await metaVote.getDelegation(0, carol.address)).representative).to.eq(voterA.address);
+    await vote(0, voterA, 0);
+
+    const [, , , weight] = await metaVote.getDelegation(0, voterA.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, weight, metaVoteAddress, voterA)).to.eq(2n);
+
+    await time.increaseTo(Number(end + 1n));
+    expect(await finalizeAndPublish(0)).to.deep.equal([2, 0, 1, 0, 0]);
+  });
+
+  it("carries delegated token weight in weighted polls", async function () {
+    const tokenFactory = (await ethers.getContractFactory("MockConfidentialToken")) as MockConfidentialToken__factory;
+    const token = (await tokenFactory.deploy()) as MockConfidentialToken;
+    await (await token.mint(voterA.address, 5)).wait();
+    await (await token.mint(voterB.address, 3)).wait();
+    await (await token.mint(deployer.address, 4)).wait();
+
+    const { start, end } = await createSamplePoll({ kind: PollKind.Approval, weightToken: await token.getAddress() });
+    await (await metaVote.connect(voterA).delegate(voterB.address)).wait();
+    await (await metaVote.delegate(voterB.address)).wait();
+    await time.increaseTo(Number(start + 1n));
+
+    await vote(0, voterB, 0b011);
+    await (await metaVote.countDelegations(0, [voterA.address, deployer.address], [])).wait();
+    await vote(0, voterB, 0b110);
+    await vote(0, deployer, 0b001);
+
+    await time.increaseTo(Number(end + 1n));
+    expect(await finalizeAndPublish(0)).to.deep.equal([4, 8, 8, 12, 0, 0]);
+  });
+
+  it("only accepts ballots from allowlisted voters on gated polls", async function () {
+    const tree = StandardMerkleTree.of([[voterA.address], [deployer.address]], ["address"]);
+    const { start } = await createSamplePoll({ eligibilityRoot: tree.root });
+    await time.increaseTo(Number(start + 1n));
+
+    expect((await metaVote.getPollSettings(0)).eligibilityRoot).to.eq(tree.root);
+    const proofA = tree.getProof([voterA.address]);
+    expect(await metaVote.isEligible(0, voterA.address, proofA)).to.eq(true);
+    expect(await metaVote.isEligible(0, voterB.address, proofA)).to.eq(false);
+
+    const encryptedChoiceB = await fhevm
+      .createEncryptedInput(metaVoteAddress, voterB.address)
+      .add32(0)
+      .encrypt();
+    await expect(
+      metaVote.connect(voterB).castVote(0, encryptedChoiceB.handles[0], encryptedChoiceB.inputProof, []),
+    ).to.be.revertedWithCustomError(metaVote, "NotEligible");
+    await expect(
+      metaVote.connect(voterB).castVote(0, encryptedChoiceB.handles[0], encryptedChoiceB.inputProof, proofA),
+    ).to.be.revertedWithCustomError(metaVote, "NotEligible");
+
+    const encryptedChoiceA = await fhevm
+      .createEncryptedInput(metaVoteAddress, voterA.address)
+      .add32(0)
+      .encrypt();
+    await (await metaVote
+      .connect(voterA)
+      .castVote(0, encryptedChoiceA.handles[0], encryptedChoiceA.inputProof, proofA)).wait();
+    expect(await metaVote.hasUserVoted(0, voterA.address)).to.eq(true);
+
+    // Delegated weight needs the delegator's own allowlist proof.
+    await (await metaVote.connect(voterB).delegate(voterA.address)).wait();
+    await (await metaVote.delegate(voterA.address)).wait();
+    await expect(
+      metaVote.countDelegations(0, [voterB.address], [proofA]),
+    ).to.be.revertedWithCustomError(metaVote, "NotEligible");
+    await (await metaVote.countDelegations(0, [deployer.address], [tree.getProof([deployer.address])])).wait();
+    expect((await metaVote.getDelegation(0, voterA.address)).delegations).to.eq(1);
+  });
+
+  it("weights ballots by the confidential token balance at the poll snapshot", async function () {
+    const tokenFactory = (await ethers.getContractFactory("MockConfidentialToken")) as MockConfidentialToken__factory;
+    const token = (await tokenFactory.deploy()) as MockConfidentialToken;
+    const tokenAddress = await token.getAddress();
+    await (await token.mint(voterA.address, 5)).wait();
+    await (await token.mint(voterB.address, 3)).wait();
+
+    const { start, end } = await createSamplePoll({ weightToken: tokenAddress });
+
+    // Moving tokens after the snapshot must not change the weights.
+    const encryptedAmount = await fhevm.createEncryptedInput(tokenAddress, voterB.address).add64(3).encrypt();
+    await (
+      await token
+        .connect(voterB)
+        .confidentialTransfer(voterA.address, encryptedAmount.handles[0], encryptedAmount.inputProof)
+    ).wait();
+
+    await time.increaseTo(Number(start + 1n));
+    await vote(0, voterA, 1);
+    await vote(0, voterB, 2);
+    await vote(0, voterA, 0);
+    await vote(0, deployer, 1);
+
+    await time.increaseTo(Number(end + 1n));
+    expect(await finalizeAndPublish(0)).to.deep.equal([5, 0, 3, 0, 0]);
+  });
+
+  it("caps token weights in score polls so that weighted scores cannot wrap the tallies", async function () {
+    const tokenFactory = (await ethers.getContractFactory("MockConfidentialToken")) as MockConfidentialToken__factory;
+    const token = (await tokenFactory.deploy()) as MockConfidentialToken;
+    await (await token.mint(voterA.address, 2n ** 40n)).wait();
+    await (await token.mint(voterB.address, 2n ** 40n)).wait();
+    const maxScore = await metaVote.MAX_SCORE();
+
+    const { start, end } = await createSamplePoll({ kind: PollKind.Score, weightToken: await token.getAddress() });
+    await createSamplePoll({ weightToken: await token.getAddress() });
+    await time.increaseTo(Number(start + 1n));
+    await scoreVote(0, voterA, [Number(maxScore), 1, 0]);
+    await vote(1, voterB, 0);
+
+    const cap = 2 ** 32 - 1;
+    const scoreCap = Math.floor(cap / Number(maxScore));
+    await time.increaseTo(Number(end + 1n));
+    expect(await finalizeAndPublish(0)).to.deep.equal([scoreCap * Number(maxScore), scoreCap, 0, scoreCap, 0, 0]);
+    expect(await finalizeAndPublish(1)).to.deep.equal([cap, 0, 0, 0, 0]);
+  });
+
+  it("rejects weight tokens that are not contracts", async function () {
+    await expect(createSamplePoll({ weightToken: voterA.address })).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidWeightToken",
+    );
+  });
+
+  it("lets each membership NFT vote once, even after it changes hands", async function () {
+    const nftFactory = (await ethers.getContractFactory("MockMembershipNFT")) as MockMembershipNFT__factory;
+    const nft = (await nftFactory.deploy()) as MockMembershipNFT;
+    const nftAddress = await nft.getAddress();
+    await (await nft.mint(voterA.address)).wait();
+    await (await nft.mint(voterA.address)).wait();
+    await (await nft.mint(voterB.address)).wait();
+
+    await expect(createSamplePoll({ membershipToken: voterA.address })).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidMembershipToken",
+    );
+    const { start, end } = await createSamplePoll({ membershipToken: nftAddress });
+    await createSamplePoll();
+    await time.increaseTo(Number(start + 1n));
+
+    async function tokenVote(pollId: number, voter: HardhatEthersSigner, tokenId: number, choice: number) {
+      const encrypted = await fhevm.createEncryptedInput(metaVoteAddress, voter.address).add32(choice).encrypt();
+      return metaVote
+        .connect(voter)
+        .castVoteWithToken(pollId, tokenId, encrypted.handles[0], encrypted.inputProof, []);
+    }
+
+    await expect(vote(0, voterA, 1)).to.be.revertedWithCustomError(metaVote, "NotTokenHolder");
+    await expect(tokenVote(0, voterA, 2, 1)).to.be.revertedWithCustomError(metaVote, "NotTokenHolder");
+    await expect(tokenVote(1, voterA, 0, 1)).to.be.revertedWithCustomError(metaVote, "InvalidMode");
+    await (await tokenVote(0, voterA, 0, 1)).wait();
+    await (await tokenVote(0, voterA, 0, 2)).wait();
+    await expect(tokenVote(0, voterA, 1, 0)).to.be.revertedWithCustomError(metaVote, "TokenAlreadyUsed");
+    expect(await metaVote.getTokenVoter(0, 0)).to.eq(voterA.address);
+
+    // The new owner of a token that already voted cannot vote with it again.
+    await (await nft.connect(voterA).transferFrom(voterA.address, voterB.address, 0)).wait();
+    await expect(tokenVote(0, voterB, 0, 0)).to.be.revertedWithCustomError(metaVote, "TokenAlreadyUsed");
+    await expect(tokenVote(0, voterA, 0, 0)).to.be.revertedWithCustomError(metaVote, "NotTokenHolder");
+    await (await tokenVote(0, voterB, 2, 0)).wait();
+    await expect(metaVote.countDelegations(0, [deployer.address], [])).to.be.revertedWithCustomError(
+      metaVote,
+      "InvalidMode",
+    );
+
+    await time.increaseTo(Number(end + 1n));
+    expect(await finalizeAndPublish(0)).to.deep.equal([1, 0, 1, 0, 0]);
+  });
+
+  it("reads whole poll records a page at a time through MetaVoteLens", async function () {
+    const lensFactory = (await ethers.getContractFactory("MetaVoteLens")) as MetaVoteLens__factory;
+    const lens = (await lensFactory.deploy(metaVoteAddress)) as MetaVoteLens;
+    expect(await lens.getPolls(0, 10, voterA.address)).to.deep.equal([]);
+
+    const { start, end } = await createSamplePoll();
+    await createSamplePoll({ kind: PollKind.Approval, quorum: 3 }, ["Yes", "No"]);
+    await createSamplePoll();
+    await (await metaVote.defineCohorts(2, ["North", "South"])).wait();
+    await (await metaVote.assignCohorts(2, [voterA.address], [1])).wait();
+    await time.increaseTo(Number(start + 1n));
+    await vote(0, voterA, 1);
+    await vote(0, voterB, 1);
+    await time.increaseTo(Number(end + 1n));
+    const results = await finalizeAndPublish(0);
+
+    const page = await lens.getPolls(0, 2, voterA.address);
+    expect(page.map((record) => record.id)).to.deep.equal([0n, 1n]);
+    const [title, startTime, endTime, , finalized, resultsPublished, creator, cancelled] =
+      await metaVote.getPollSummary(0);
+    expect(page[0].title).to.eq(title);
+    expect([page[0].startTime, page[0].endTime, page[0].creator]).to.deep.equal([startTime, endTime, creator]);
+    expect([page[0].finalized, page[0].resultsPublished, page[0].cancelled]).to.deep.equal([
+      finalized,
+      resultsPublished,
+      cancelled,
+    ]);
+    expect(page[0].options).to.deep.equal(await metaVote.getPollOptions(0));
+    expect(page[0].voterCount).to.eq(2n);
+    expect(page[0].results.map(Number)).to.deep.equal(results);
+    expect(page[0].proof).to.eq((await metaVote.getPublishedResults(0)).proof);
+    expect([page[0].outcome, page[0].winningOption]).to.deep.equal(await metaVote.getPollOutcome(0));
+    expect(page[0].voter.voted).to.eq(true);
+    expect(page[0].voter.weight).to.eq((await metaVote.getDelegation(0, voterA.address)).weight);
+    expect(page[1].settings.kind).to.eq(BigInt(PollKind.Approval));
+    expect(page[1].settings.quorum).to.eq(3n);
+    expect([page[1].voter.voted, page[1].resultsPublished, page[1].results]).to.deep.equal([false, false, []]);
+
+    // The last page is short, and pages past the end are empty.
+    const [last] = await lens.getPolls(2, 10, voterA.address);
+    expect(last.cohorts).to.deep.equal(["North", "South"]);
+    expect([last.voter.inCohort, last.voter.cohort]).to.deep.equal([true, 1n]);
+    expect((await lens.getPolls(2, 10, ethers.ZeroAddress))[0].voter.inCohort).to.eq(false);
+    expect(await lens.getPolls(3, 10, voterA.address)).to.deep.equal([]);
+    expect(await lens.getPolls(7, 10, voterA.address)).to.deep.equal([]);
+  });
+
+  it("exports published results with their proof and voters as a results bundle", async function () {
+    const { start, end } = await createSamplePoll();
+    await (await metaVote.defineCohorts(0, ["Staff"])).wait();
+    await (await metaVote.assignCohorts(0, [voterB.address], [0])).wait();
+    await time.increaseTo(Number(start + 1n));
+    await vote(0, voterA, 1);
+    await vote(0, voterB, 2);
+    await vote(0, voterA, 2);
+    await time.increaseTo(Number(end + 1n));
+    const unpublished = await buildResultsBundle(hre, metaVoteAddress, 0).catch((error: Error) => error.message);
+    expect(unpublished).to.match(/no published results/);
+    const results = await finalizeAndPublish(0);
+
+    const bundle = await buildResultsBundle(hre, metaVoteAddress, 0);
+    expect(bundle).to.include({ format: RESULTS_FORMAT, chainId: "31337", contract: metaVoteAddress, tallyCount: 5 });
+    expect(bundle.poll).to.include({ id: 0, title: "Favorite language", creator: deployer.address, kind: 0 });
+    expect(bundle.poll.cohorts).to.deep.equal(["Staff"]);
+    expect([bundle.poll.outcome, bundle.poll.winningOption]).to.deep.equal([PollOutcome.Passed, 2]);
+    expect(bundle.clearTallies).to.deep.equal(results);
+    expect(bundle.handles).to.deep.equal(await metaVote.getDecryptionHandles(0));
+    expect(bundle.publicDecryptionProof).to.eq((await metaVote.getPublishedResults(0)).proof);
+    expect(bundle.voters).to.deep.equal([voterA.address, voterB.address]);
+    const { created, finalized, published, exported } = bundle.blocks;
+    expect(created).to.be.greaterThan(0);
+    expect(created < finalized && finalized < published && published <= exported).to.eq(true);
+  });
+
+  it("verifies the KMS signatures of a results bundle without the chain", async function () {
+    const { start, end } = await createSamplePoll();
+    await createSamplePoll({ revealWinnerOnly: true });
+    await (await metaVote.defineCohorts(0, ["Staff"])).wait();
+    await (await metaVote.assignCohorts(0, [voterA.address], [0])).wait();
+    await time.increaseTo(Number(start + 1n));
+    await vote(0, voterA, 1);
+    await vote(0, voterB, 2);
+    await vote(1, voterA, 2);
+    await time.increaseTo(Number(end + 1n));
+    await finalizeAndPublish(0);
+    await finalizeAndPublish(1);
+
+    const kms = await readKmsConfig(ethers.provider);
+    expect(kms.signers.length).to.be.at.least(kms.threshold);
+    const bundle = await buildResultsBundle(hre, metaVoteAddress, 0);
+    const [, cohortTallies] = await metaVote.getCohorts(0);
+    const onChain = [...(await metaVote.getEncryptedTallies(0)), ...cohortTallies];
+    const verified = verifyResultsBundle(bundle, kms, onChain);
+    expect(verified).to.deep.include({ valid: true, problems: [] });
+    expect(verified.signers.length).to.eq(kms.threshold);
+    expect(verifyResultsBundle(await buildResultsBundle(hre, metaVoteAddress, 1), kms).valid).to.eq(true);
+
+    // Any edit to the tallies or handles breaks the signatures, and so does another signer set.
+    const tampered = { ...bundle, clearTallies: bundle.clearTallies.map((count, index) => (index === 1 ? 0 : count)) };
+    expect(verifyResultsBundle(tampered, kms).valid).to.eq(false);
+    const swapped = { ...bundle, handles: [bundle.handles[1], bundle.handles[0], ...bundle.handles.slice(2)] };
+    expect(verifyResultsBundle(swapped, kms).valid).to.eq(false);
+    expect(verifyResultsBundle(bundle, { ...kms, signers: [voterA.address] }).problems).to.have.length(2);
+    expect(verifyResultsBundle(bundle, kms, onChain.slice(5)).problems).to.deep.equal([
+      "the handles differ from the poll tallies on chain",
+    ]);
+    expect(verifyResultsBundle({ ...bundle, publicDecryptionProof: "0x00" }, kms).valid).to.eq(false);
+  });
 });